@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+
+import { listOutbox } from "@/lib/mail";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * The local mail stub's outbox, newest first (`?to=` narrows it to one
+ * address). Not available in production builds.
+ */
+export async function GET(request: Request) {
+  if (process.env.NODE_ENV === "production") {
+    return new NextResponse(null, { status: 404 });
+  }
+
+  const to = new URL(request.url).searchParams.get("to") ?? undefined;
+  return NextResponse.json({ messages: listOutbox(to) });
+}
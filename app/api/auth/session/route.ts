@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+
+import { describeSession, endSession, switchWorkspace } from "@/lib/auth";
+import { GenerateError, toGenerateError } from "@/lib/errors";
+import { errorResponse, readJsonBody } from "@/lib/http";
+import type { SessionResponse } from "@/lib/types";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    return NextResponse.json<SessionResponse>(await describeSession());
+  } catch (error) {
+    return errorResponse(toGenerateError(error));
+  }
+}
+
+/** Switches the workspace new renders go to: `{ "workspaceId" }`. */
+export async function PATCH(request: Request) {
+  try {
+    const { workspaceId } = await readJsonBody(request);
+
+    if (typeof workspaceId !== "string") {
+      throw new GenerateError("invalid_request", {
+        message: "workspaceId is required.",
+      });
+    }
+
+    await switchWorkspace(workspaceId);
+    return NextResponse.json<SessionResponse>(await describeSession());
+  } catch (error) {
+    return errorResponse(toGenerateError(error));
+  }
+}
+
+/** Signs out. */
+export async function DELETE() {
+  const response = new NextResponse(null, { status: 204 });
+  await endSession(response);
+  return response;
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+
+import { getAuthProvider, setSessionCookie, startSession } from "@/lib/auth";
+import { GenerateError, toGenerateError } from "@/lib/errors";
+import { errorResponse, readJsonBody } from "@/lib/http";
+import type { SessionResponse, SignInRequest } from "@/lib/types";
+import { listWorkspaces, publicUser } from "@/lib/workspaces";
+
+export const dynamic = "force-dynamic";
+
+function readText(value: unknown) {
+  return typeof value === "string" ? value : undefined;
+}
+
+/**
+ * Signs in (or registers, with `create: true`) through the configured
+ * provider. Magic links answer 202 once the link is mailed.
+ */
+export async function POST(request: Request) {
+  try {
+    const provider = getAuthProvider();
+
+    if (!provider) {
+      throw new GenerateError("configuration", {
+        message: "Sign-in is turned off.",
+        detail: "Set AUTH_PROVIDER to password or magic-link to enable it.",
+      });
+    }
+
+    const body = await readJsonBody(request);
+    const input: SignInRequest = {
+      email: readText(body.email),
+      username: readText(body.username),
+      password: readText(body.password),
+      name: readText(body.name),
+      create: body.create === true,
+    };
+    const user = await provider.signIn(input);
+
+    if (!user) {
+      return NextResponse.json({ sent: true }, { status: 202 });
+    }
+
+    const token = startSession(user);
+    const workspaces = listWorkspaces(user.id);
+    const response = NextResponse.json<SessionResponse>({
+      provider: provider.name,
+      user: publicUser(user),
+      workspaces,
+      workspaceId: workspaces[0]?.id,
+    });
+    setSessionCookie(response, token);
+    return response;
+  } catch (error) {
+    return errorResponse(toGenerateError(error));
+  }
+}
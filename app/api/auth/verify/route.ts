@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+
+import { getAuthProvider, setSessionCookie, startSession } from "@/lib/auth";
+import { appOrigin } from "@/lib/http";
+
+export const dynamic = "force-dynamic";
+
+/** Where a mailed sign-in link lands: starts the session and opens the studio. */
+export async function GET(request: Request) {
+  const token = new URL(request.url).searchParams.get("token");
+  const user = token ? getAuthProvider()?.verify?.(token) : undefined;
+  const studio = new URL("/", appOrigin(request));
+
+  if (!user) {
+    studio.searchParams.set("signIn", "expired");
+    return NextResponse.redirect(studio);
+  }
+
+  const response = NextResponse.redirect(studio);
+  setSessionCookie(response, startSession(user));
+  return response;
+}
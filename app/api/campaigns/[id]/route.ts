@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+
+import { requireAccess } from "@/lib/auth";
+import { getCampaign } from "@/lib/campaigns";
+import { GenerateError, toGenerateError } from "@/lib/errors";
+import { errorResponse } from "@/lib/http";
+import type { CampaignResponse, GenerateErrorBody } from "@/lib/types";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const campaign = getCampaign(id);
+
+  if (!campaign) {
+    return NextResponse.json<GenerateErrorBody>(
+      {
+        error: new GenerateError("invalid_request", {
+          message: "Unknown campaign id.",
+        }).toInfo(),
+      },
+      { status: 404 },
+    );
+  }
+
+  try {
+    await requireAccess(campaign.campaign.workspaceId, "viewer");
+  } catch (error) {
+    return errorResponse(toGenerateError(error));
+  }
+
+  return NextResponse.json<CampaignResponse>(campaign);
+}
@@ -0,0 +1,33 @@
+import { NextResponse, after } from "next/server";
+
+import { type Access, ownership, requireWorkspace } from "@/lib/auth";
+import { createCampaign, getCampaign, runCampaign } from "@/lib/campaigns";
+import { toGenerateError } from "@/lib/errors";
+import { callbackUrlFor, errorResponse, readCampaignRequest } from "@/lib/http";
+import { reserveRenders } from "@/lib/quotas";
+import type { CampaignResponse } from "@/lib/types";
+
+export const dynamic = "force-dynamic";
+
+/** Queues a batch of topics as one named campaign. */
+export async function POST(request: Request) {
+  let input: Awaited<ReturnType<typeof readCampaignRequest>>;
+  let access: Access | undefined;
+
+  try {
+    access = await requireWorkspace("editor");
+    input = await readCampaignRequest(request);
+    reserveRenders(access, input.jobs.length);
+  } catch (error) {
+    return errorResponse(toGenerateError(error));
+  }
+
+  const campaign = createCampaign({ ...input, ...ownership(access) });
+  after(() =>
+    runCampaign(campaign.id, (jobId) => callbackUrlFor(request, jobId)),
+  );
+
+  return NextResponse.json<CampaignResponse>(getCampaign(campaign.id)!, {
+    status: 202,
+  });
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+
+import { requireWorkspace } from "@/lib/auth";
+import {
+  aspectRatioOptions,
+  defaultBrief,
+  type AspectRatio,
+} from "@/lib/brief";
+import { GenerateError, toGenerateError } from "@/lib/errors";
+import { searchFootage } from "@/lib/footage";
+import { errorResponse } from "@/lib/http";
+import type { FootageResponse } from "@/lib/types";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const query = searchParams.get("query")?.trim();
+  const ratio = searchParams.get("aspectRatio");
+  const aspectRatio = aspectRatioOptions.some(
+    (option) => option.value === ratio,
+  )
+    ? (ratio as AspectRatio)
+    : defaultBrief.aspectRatio;
+
+  if (!query) {
+    return errorResponse(
+      new GenerateError("invalid_request", {
+        message: "Add some keywords to search for footage.",
+      }),
+    );
+  }
+
+  try {
+    await requireWorkspace("editor");
+    const candidates = await searchFootage(query, aspectRatio);
+    return NextResponse.json<FootageResponse>({ candidates });
+  } catch (error) {
+    return errorResponse(toGenerateError(error));
+  }
+}
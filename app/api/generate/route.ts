@@ -0,0 +1,28 @@
+import { NextResponse, after } from "next/server";
+
+import { type Access, ownership, requireWorkspace } from "@/lib/auth";
+import { toGenerateError } from "@/lib/errors";
+import { callbackUrlFor, errorResponse, readGenerateRequest } from "@/lib/http";
+import { createJob, runJob } from "@/lib/jobs";
+import { reserveRenders } from "@/lib/quotas";
+import type { JobResponse } from "@/lib/types";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request) {
+  let input: Awaited<ReturnType<typeof readGenerateRequest>>;
+  let access: Access | undefined;
+
+  try {
+    access = await requireWorkspace("editor");
+    input = await readGenerateRequest(request);
+    reserveRenders(access);
+  } catch (error) {
+    return errorResponse(toGenerateError(error));
+  }
+
+  const job = createJob({ ...input, ...ownership(access) });
+  after(() => runJob(job.id, callbackUrlFor(request, job.id)));
+
+  return NextResponse.json<JobResponse>({ job }, { status: 202 });
+}
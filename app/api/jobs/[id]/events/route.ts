@@ -0,0 +1,98 @@
+import { NextResponse } from "next/server";
+
+import { GenerateError, toGenerateError } from "@/lib/errors";
+import { errorResponse } from "@/lib/http";
+import { applyJobEvent, rejectCallback } from "@/lib/jobs";
+import { verifySignature } from "@/lib/signing";
+import type {
+  GenerateErrorBody,
+  JobCallbackPayload,
+  JobEventType,
+  JobResponse,
+} from "@/lib/types";
+
+export const dynamic = "force-dynamic";
+
+const eventTypes: JobEventType[] = [
+  "script_parsed",
+  "voiceover_ready",
+  "clip_fetched",
+  "render_submitted",
+  "render_succeeded",
+  "render_failed",
+];
+
+function optionalNumber(value: unknown) {
+  const number = typeof value === "string" ? Number(value) : value;
+  return typeof number === "number" && Number.isFinite(number)
+    ? number
+    : undefined;
+}
+
+function optionalString(value: unknown) {
+  return typeof value === "string" && value ? value : undefined;
+}
+
+function badRequest(message: string, status = 400) {
+  return NextResponse.json<GenerateErrorBody>(
+    { error: new GenerateError("invalid_request", { message }).toInfo() },
+    { status },
+  );
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const raw = await request.text();
+
+  try {
+    verifySignature(request.headers, raw);
+  } catch (error) {
+    return errorResponse(toGenerateError(error));
+  }
+
+  const attempt = optionalNumber(
+    new URL(request.url).searchParams.get("attempt") ?? undefined,
+  );
+  let body: Record<string, unknown>;
+
+  try {
+    body = JSON.parse(raw);
+  } catch (error) {
+    // The workflow won't send this event again, so the job can't finish.
+    rejectCallback(
+      id,
+      new GenerateError("invalid_response", {
+        message: "The workflow sent a callback that isn't valid JSON.",
+        detail: raw.slice(0, 500),
+      }),
+      attempt,
+    );
+    return badRequest("Callback body must be JSON.");
+  }
+
+  const type = body?.event ?? body?.type;
+
+  if (!eventTypes.includes(type as JobEventType)) {
+    return badRequest(`Unknown callback event "${String(type)}".`);
+  }
+
+  const payload: JobCallbackPayload = {
+    type: type as JobEventType,
+    sceneNumber: optionalNumber(body.sceneNumber),
+    totalScenes: optionalNumber(body.totalScenes),
+    renderId: optionalString(body.renderId),
+    message: optionalString(body.message),
+    externalId: optionalString(body.executionId),
+    result: body.result,
+  };
+  const job = applyJobEvent(id, payload, attempt);
+
+  if (!job) {
+    return badRequest("Unknown job id.", 404);
+  }
+
+  return NextResponse.json<JobResponse>({ job });
+}
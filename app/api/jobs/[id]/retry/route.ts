@@ -0,0 +1,52 @@
+import { NextResponse, after } from "next/server";
+
+import { requireAccess } from "@/lib/auth";
+import { GenerateError, toGenerateError } from "@/lib/errors";
+import { callbackUrlFor, errorResponse } from "@/lib/http";
+import { getJob, retryJob, runJob } from "@/lib/jobs";
+import { reserveRenders } from "@/lib/quotas";
+import type { GenerateErrorBody, JobResponse } from "@/lib/types";
+
+export const dynamic = "force-dynamic";
+
+function badRequest(message: string, status: number) {
+  return NextResponse.json<GenerateErrorBody>(
+    { error: new GenerateError("invalid_request", { message }).toInfo() },
+    { status },
+  );
+}
+
+/** Starts a new, manually triggered attempt for a failed or cancelled job. */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const job = getJob(id);
+
+  if (!job) {
+    return badRequest("Unknown job id.", 404);
+  }
+
+  try {
+    const access = await requireAccess(job.workspaceId, "editor");
+
+    // Checked after the await, and with nothing async until `retryJob`, so a
+    // retry that loses a race is turned away before it's charged.
+    const current = getJob(id);
+    if (current?.status !== "failed" && current?.status !== "cancelled") {
+      return badRequest("Only failed or cancelled jobs can be retried.", 409);
+    }
+
+    // A manual retry is a new paid render, so it counts against the quotas.
+    reserveRenders(access);
+  } catch (error) {
+    return errorResponse(toGenerateError(error));
+  }
+
+  retryJob(id);
+
+  after(() => runJob(id, callbackUrlFor(request, id), "manual"));
+
+  return NextResponse.json<JobResponse>({ job: getJob(id)! }, { status: 202 });
+}
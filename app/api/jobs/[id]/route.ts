@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+
+import { requireAccess } from "@/lib/auth";
+import { GenerateError, toGenerateError } from "@/lib/errors";
+import { errorResponse } from "@/lib/http";
+import { cancelJob, getJob } from "@/lib/jobs";
+import type { GenerateErrorBody, JobResponse } from "@/lib/types";
+
+export const dynamic = "force-dynamic";
+
+function unknownJob() {
+  return NextResponse.json<GenerateErrorBody>(
+    {
+      error: new GenerateError("invalid_request", {
+        message: "Unknown job id.",
+      }).toInfo(),
+    },
+    { status: 404 },
+  );
+}
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const job = getJob(id);
+
+  if (!job) {
+    return unknownJob();
+  }
+
+  try {
+    await requireAccess(job.workspaceId, "viewer");
+  } catch (error) {
+    return errorResponse(toGenerateError(error));
+  }
+
+  return NextResponse.json<JobResponse>({ job });
+}
+
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const job = getJob(id);
+
+  if (!job) {
+    return unknownJob();
+  }
+
+  try {
+    await requireAccess(job.workspaceId, "editor");
+  } catch (error) {
+    return errorResponse(toGenerateError(error));
+  }
+
+  await cancelJob(id);
+
+  return NextResponse.json<JobResponse>({ job: getJob(id)! });
+}
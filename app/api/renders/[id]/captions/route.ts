@@ -0,0 +1,28 @@
+import { cuesForVideo, toSrt, toVtt } from "@/lib/captions";
+import { getRender } from "@/lib/render-store";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const video = getRender(id);
+  // Public like the share page that plays them: the render id is the link.
+  const cues = video ? cuesForVideo(video) : [];
+
+  if (cues.length === 0) {
+    return new Response("No captions for this render.", { status: 404 });
+  }
+
+  const format = new URL(request.url).searchParams.get("format");
+
+  return format === "srt"
+    ? new Response(toSrt(cues), {
+        headers: { "Content-Type": "application/x-subrip; charset=utf-8" },
+      })
+    : new Response(toVtt(cues), {
+        headers: { "Content-Type": "text/vtt; charset=utf-8" },
+      });
+}
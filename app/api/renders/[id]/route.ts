@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+
+import { requireRecordAccess } from "@/lib/auth";
+import { GenerateError, toGenerateError } from "@/lib/errors";
+import { errorResponse } from "@/lib/http";
+import { deleteRender, getRender } from "@/lib/render-store";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const render = getRender(id);
+
+  if (!render) {
+    const error = new GenerateError("invalid_request", {
+      message: "Unknown render id.",
+    });
+    return NextResponse.json({ error: error.toInfo() }, { status: 404 });
+  }
+
+  try {
+    await requireRecordAccess(render.workspaceId, "viewer");
+  } catch (error) {
+    return errorResponse(toGenerateError(error));
+  }
+
+  return NextResponse.json({ render });
+}
+
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const render = getRender(id);
+
+  if (render) {
+    try {
+      await requireRecordAccess(render.workspaceId, "editor");
+    } catch (error) {
+      return errorResponse(toGenerateError(error));
+    }
+    deleteRender(id);
+  }
+
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,86 @@
+import { NextResponse } from "next/server";
+
+import { requireRecordAccess, requireWorkspace } from "@/lib/auth";
+import { GenerateError, toGenerateError } from "@/lib/errors";
+import { migrateRecord } from "@/lib/history";
+import { errorResponse } from "@/lib/http";
+import {
+  clearRenders,
+  getRender,
+  listRenders,
+  saveRender,
+} from "@/lib/render-store";
+import type { GenerateErrorBody } from "@/lib/types";
+
+export const dynamic = "force-dynamic";
+
+function badRequest(message: string) {
+  return NextResponse.json<GenerateErrorBody>(
+    { error: new GenerateError("invalid_request", { message }).toInfo() },
+    { status: 400 },
+  );
+}
+
+/** The renders of the caller's active workspace (all of them with sign-in off). */
+export async function GET() {
+  try {
+    const access = await requireWorkspace("viewer");
+    return NextResponse.json({ renders: listRenders(access?.workspaceId) });
+  } catch (error) {
+    return errorResponse(toGenerateError(error));
+  }
+}
+
+export async function POST(request: Request) {
+  let body: unknown;
+
+  try {
+    body = await request.json();
+  } catch (error) {
+    return badRequest("Request body must be JSON.");
+  }
+
+  const video = migrateRecord(body);
+
+  if (!video) {
+    return badRequest(
+      "A render needs at least an id, url, prompt and createdAt.",
+    );
+  }
+
+  try {
+    // New renders without a workspace join the caller's active one, and
+    // nobody can overwrite a render in a workspace they can't edit.
+    const access = await requireRecordAccess(video.workspaceId, "editor");
+    const existing = getRender(video.id);
+
+    if (access && existing) {
+      await requireRecordAccess(existing.workspaceId, "editor");
+    }
+
+    // The session, not the client, says who made a render and where; one
+    // that's already stored keeps both, so shared renders stay shared.
+    saveRender({
+      ...video,
+      ...(access && {
+        ownerId: existing ? existing.ownerId : access.user.id,
+        workspaceId: existing ? existing.workspaceId : access.workspaceId,
+      }),
+    });
+  } catch (error) {
+    return errorResponse(toGenerateError(error));
+  }
+
+  return new NextResponse(null, { status: 204 });
+}
+
+export async function DELETE() {
+  try {
+    const access = await requireWorkspace("editor");
+    clearRenders(access?.workspaceId);
+  } catch (error) {
+    return errorResponse(toGenerateError(error));
+  }
+
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+
+import { requireWorkspace } from "@/lib/auth";
+import { getBackend } from "@/lib/backend";
+import { toWorkflowBrief } from "@/lib/brief";
+import { toGenerateError } from "@/lib/errors";
+import { errorResponse, readGenerateRequest } from "@/lib/http";
+import type { ScriptResponse } from "@/lib/types";
+
+export const dynamic = "force-dynamic";
+
+/** Asks the backend for a script only, so it can be reviewed before rendering. */
+export async function POST(request: Request) {
+  try {
+    await requireWorkspace("editor");
+    const { topic, brief } = await readGenerateRequest(request);
+    const storyboard = await getBackend().script(
+      { ...toWorkflowBrief(brief), topic, mode: "script" },
+      request.signal,
+    );
+
+    return NextResponse.json<ScriptResponse>({ storyboard });
+  } catch (error) {
+    return errorResponse(toGenerateError(error));
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+
+import { requireWorkspace } from "@/lib/auth";
+import { toGenerateError } from "@/lib/errors";
+import { errorResponse } from "@/lib/http";
+import { describeUsage } from "@/lib/quotas";
+import type { UsageResponse } from "@/lib/types";
+
+export const dynamic = "force-dynamic";
+
+/** The caller's generation quotas in their active workspace. */
+export async function GET() {
+  try {
+    const access = await requireWorkspace("viewer");
+    return NextResponse.json<UsageResponse>({ meters: describeUsage(access) });
+  } catch (error) {
+    return errorResponse(toGenerateError(error));
+  }
+}
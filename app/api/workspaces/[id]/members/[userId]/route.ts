@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+
+import { requireAccess } from "@/lib/auth";
+import { GenerateError, toGenerateError } from "@/lib/errors";
+import { errorResponse } from "@/lib/http";
+import type { WorkspaceResponse } from "@/lib/types";
+import { getWorkspace, removeMember, roleIn } from "@/lib/workspaces";
+
+export const dynamic = "force-dynamic";
+
+/** Removes a member. Admins remove others; anyone can leave. */
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string; userId: string }> },
+) {
+  const { id, userId } = await params;
+
+  try {
+    const access = await requireAccess(id, "viewer");
+
+    if (!access) {
+      throw new GenerateError("configuration", {
+        message: "Sign-in is turned off.",
+        detail: "Set AUTH_PROVIDER to use workspaces.",
+      });
+    }
+
+    const actorRole =
+      access.user.id === userId
+        ? roleIn(id, userId)!
+        : (await requireAccess(id, "admin"))!.role;
+
+    removeMember(id, userId, actorRole);
+  } catch (error) {
+    return errorResponse(toGenerateError(error));
+  }
+
+  return NextResponse.json<WorkspaceResponse>({
+    workspace: getWorkspace(id)!,
+  });
+}
@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+
+import { getAuthProvider, requireAccess } from "@/lib/auth";
+import { GenerateError, toGenerateError } from "@/lib/errors";
+import { errorResponse, readJsonBody } from "@/lib/http";
+import { isWorkspaceRole } from "@/lib/roles";
+import type { WorkspaceResponse } from "@/lib/types";
+import { getWorkspace, setMember } from "@/lib/workspaces";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Adds a member or changes their role: `{ "identifier", "role" }`, where the
+ * identifier is a username or an email address, depending on the provider.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+
+  try {
+    const access = await requireAccess(id, "admin");
+
+    if (!access) {
+      throw new GenerateError("configuration", {
+        message: "Sign-in is turned off.",
+        detail: "Set AUTH_PROVIDER to use workspaces.",
+      });
+    }
+
+    const { identifier, role } = await readJsonBody(request);
+
+    if (typeof identifier !== "string" || !isWorkspaceRole(role)) {
+      throw new GenerateError("invalid_request", {
+        message: "Send the member's identifier and a role.",
+      });
+    }
+
+    const member = getAuthProvider()?.findMember(identifier);
+
+    if (!member) {
+      throw new GenerateError("invalid_request", {
+        message: `No account matches "${identifier}".`,
+      });
+    }
+
+    setMember(id, member.id, role, access.role);
+    return NextResponse.json<WorkspaceResponse>({
+      workspace: getWorkspace(id)!,
+    });
+  } catch (error) {
+    return errorResponse(toGenerateError(error));
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+
+import { requireAccess } from "@/lib/auth";
+import { toGenerateError } from "@/lib/errors";
+import { errorResponse } from "@/lib/http";
+import type { WorkspaceResponse } from "@/lib/types";
+import { getWorkspace } from "@/lib/workspaces";
+
+export const dynamic = "force-dynamic";
+
+/** A workspace and its members, for any member. */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+
+  try {
+    await requireAccess(id, "viewer");
+  } catch (error) {
+    return errorResponse(toGenerateError(error));
+  }
+
+  const workspace = getWorkspace(id);
+  return workspace
+    ? NextResponse.json<WorkspaceResponse>({ workspace })
+    : new NextResponse(null, { status: 404 });
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+
+import { requireWorkspace } from "@/lib/auth";
+import { GenerateError, toGenerateError } from "@/lib/errors";
+import { errorResponse, readJsonBody } from "@/lib/http";
+import type { WorkspaceResponse } from "@/lib/types";
+import { createWorkspace, getWorkspace } from "@/lib/workspaces";
+
+export const dynamic = "force-dynamic";
+
+const MAX_NAME_LENGTH = 60;
+
+/** Creates a workspace `{ "name" }` owned by the caller. */
+export async function POST(request: Request) {
+  try {
+    const access = await requireWorkspace("viewer");
+
+    if (!access) {
+      throw new GenerateError("configuration", {
+        message: "Sign-in is turned off.",
+        detail: "Set AUTH_PROVIDER to use workspaces.",
+      });
+    }
+
+    const { name } = await readJsonBody(request);
+    const trimmed = typeof name === "string" ? name.trim() : "";
+
+    if (!trimmed || trimmed.length > MAX_NAME_LENGTH) {
+      throw new GenerateError("invalid_request", {
+        message: `Name the workspace (up to ${MAX_NAME_LENGTH} characters).`,
+      });
+    }
+
+    const { id } = createWorkspace(trimmed, access.user.id);
+    return NextResponse.json<WorkspaceResponse>(
+      { workspace: getWorkspace(id)! },
+      { status: 201 },
+    );
+  } catch (error) {
+    return errorResponse(toGenerateError(error));
+  }
+}
@@ -0,0 +1,505 @@
+import { useEffect, useState } from "react";
+
+import { ErrorPanel } from "@/app/components/error-panel";
+import {
+  createWorkspace,
+  fetchSession,
+  fetchWorkspace,
+  removeMember,
+  setMember,
+  signIn,
+  signOut,
+  switchWorkspace,
+  toErrorInfo,
+} from "@/lib/api-client";
+import type { GenerateErrorInfo } from "@/lib/errors";
+import { hasRole, roleOptions } from "@/lib/roles";
+import type { SessionResponse, Workspace, WorkspaceRole } from "@/lib/types";
+import { classNames } from "@/lib/ui";
+
+const fieldClassName =
+  "w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none transition focus:border-white/30";
+
+const actionClassName =
+  "rounded-full border border-white/10 px-3 py-1 text-xs text-white/70 transition hover:border-white/30 hover:text-white disabled:cursor-not-allowed disabled:opacity-40";
+
+const selectClassName =
+  "rounded-full border border-white/10 bg-black/30 px-3 py-1 text-xs text-white outline-none focus:border-white/30";
+
+function SignInForm({
+  provider,
+  onSignedIn,
+}: {
+  provider: NonNullable<SessionResponse["provider"]>;
+  onSignedIn: (session: SessionResponse) => void;
+}) {
+  const [fields, setFields] = useState({
+    email: "",
+    username: "",
+    password: "",
+    name: "",
+  });
+  const [create, setCreate] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [error, setError] = useState<GenerateErrorInfo | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (
+      new URLSearchParams(window.location.search).get("signIn") === "expired"
+    ) {
+      setNotice("That sign-in link has expired or was already used.");
+    }
+  }, []);
+
+  const update = (key: keyof typeof fields, value: string) =>
+    setFields((prev) => ({ ...prev, [key]: value }));
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      const session = await signIn(
+        provider === "magic-link"
+          ? { email: fields.email }
+          : {
+              username: fields.username,
+              password: fields.password,
+              name: create ? fields.name : undefined,
+              create,
+            },
+      );
+      if (session) {
+        onSignedIn(session);
+      } else {
+        setSentTo(fields.email.trim());
+      }
+    } catch (caught) {
+      setError(toErrorInfo(caught));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (sentTo) {
+    return (
+      <div className="flex flex-col gap-2 text-sm text-white/70">
+        <p>
+          We sent a sign-in link to{" "}
+          <span className="font-medium text-white">{sentTo}</span>. It works
+          once, for 15 minutes.
+        </p>
+        <p className="text-xs text-white/50">
+          Running locally? The mail stub keeps it in the{" "}
+          <a
+            href={`/api/auth/outbox?to=${encodeURIComponent(sentTo)}`}
+            target="_blank"
+            rel="noreferrer"
+            className="underline underline-offset-4 hover:text-white"
+          >
+            outbox
+          </a>{" "}
+          and the server log.
+        </p>
+        <button
+          type="button"
+          onClick={() => setSentTo(null)}
+          className={classNames(actionClassName, "self-start")}
+        >
+          Use another address
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-3">
+      <div className="grid gap-3 sm:grid-cols-[1fr_1fr_auto] sm:items-end">
+        {provider === "magic-link" ? (
+          <label className="flex flex-col gap-1.5 text-xs text-white/50 sm:col-span-2">
+            Email
+            <input
+              type="email"
+              autoComplete="email"
+              value={fields.email}
+              onChange={(event) => update("email", event.currentTarget.value)}
+              className={fieldClassName}
+            />
+          </label>
+        ) : (
+          <>
+            <label className="flex flex-col gap-1.5 text-xs text-white/50">
+              Username
+              <input
+                autoComplete="username"
+                value={fields.username}
+                onChange={(event) =>
+                  update("username", event.currentTarget.value)
+                }
+                className={fieldClassName}
+              />
+            </label>
+            <label className="flex flex-col gap-1.5 text-xs text-white/50">
+              Password
+              <input
+                type="password"
+                autoComplete={create ? "new-password" : "current-password"}
+                value={fields.password}
+                onChange={(event) =>
+                  update("password", event.currentTarget.value)
+                }
+                className={fieldClassName}
+              />
+            </label>
+          </>
+        )}
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="rounded-full bg-white px-4 py-2 text-xs font-semibold text-black transition hover:bg-white/90 disabled:cursor-not-allowed disabled:bg-white/50"
+        >
+          {provider === "magic-link"
+            ? "Email me a link"
+            : create
+              ? "Create account"
+              : "Sign in"}
+        </button>
+      </div>
+      {provider === "password" && create && (
+        <label className="flex flex-col gap-1.5 text-xs text-white/50 sm:max-w-xs">
+          Display name
+          <input
+            value={fields.name}
+            onChange={(event) => update("name", event.currentTarget.value)}
+            className={fieldClassName}
+          />
+        </label>
+      )}
+      {provider === "password" && (
+        <button
+          type="button"
+          onClick={() => setCreate((prev) => !prev)}
+          className="self-start text-xs text-white/60 underline-offset-4 transition hover:text-white hover:underline"
+        >
+          {create ? "I already have an account" : "Create an account"}
+        </button>
+      )}
+      {notice && <p className="text-xs text-amber-200">{notice}</p>}
+      {error && <ErrorPanel error={error} />}
+    </form>
+  );
+}
+
+function MemberList({
+  workspaceId,
+  role,
+  userId,
+  onLeave,
+}: {
+  workspaceId: string;
+  role: WorkspaceRole;
+  userId: string;
+  onLeave: () => void;
+}) {
+  const [workspace, setWorkspace] = useState<Workspace | null>(null);
+  const [identifier, setIdentifier] = useState("");
+  const [newRole, setNewRole] = useState<WorkspaceRole>("editor");
+  const [error, setError] = useState<GenerateErrorInfo | null>(null);
+  const canManage = hasRole(role, "admin");
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchWorkspace(workspaceId)
+      .then((loaded) => !cancelled && setWorkspace(loaded))
+      .catch((caught) => !cancelled && setError(toErrorInfo(caught)));
+    return () => {
+      cancelled = true;
+    };
+  }, [workspaceId]);
+
+  const run = async (change: () => Promise<Workspace>) => {
+    setError(null);
+    try {
+      setWorkspace(await change());
+      return true;
+    } catch (caught) {
+      setError(toErrorInfo(caught));
+      return false;
+    }
+  };
+
+  // Owners may hand out any role; admins everything below owner.
+  const assignable = roleOptions.filter(
+    (option) => option.value !== "owner" || hasRole(role, "owner"),
+  );
+
+  return (
+    <div className="flex flex-col gap-3">
+      <ul className="grid gap-2">
+        {workspace?.members.map((member) => (
+          <li
+            key={member.id}
+            className="flex flex-wrap items-center justify-between gap-3 rounded-2xl border border-white/10 bg-black/30 px-4 py-2 text-sm"
+          >
+            <span className="flex flex-col">
+              <span className="text-white/90">
+                {member.name}
+                {member.id === userId && (
+                  <span className="text-white/40"> (you)</span>
+                )}
+              </span>
+              <span className="text-xs text-white/50">
+                {member.email ?? member.username}
+              </span>
+            </span>
+            <span className="flex items-center gap-2">
+              {canManage && member.id !== userId ? (
+                <select
+                  value={member.role}
+                  onChange={(event) => {
+                    const value = event.currentTarget.value as WorkspaceRole;
+                    void run(() =>
+                      setMember(
+                        workspaceId,
+                        member.username ?? member.email ?? member.id,
+                        value,
+                      ),
+                    );
+                  }}
+                  aria-label={`Role for ${member.name}`}
+                  className={selectClassName}
+                >
+                  {assignable.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                <span className="text-xs capitalize text-white/60">
+                  {member.role}
+                </span>
+              )}
+              {(canManage || member.id === userId) && (
+                <button
+                  type="button"
+                  onClick={async () => {
+                    if (
+                      (await run(() => removeMember(workspaceId, member.id))) &&
+                      member.id === userId
+                    ) {
+                      onLeave();
+                    }
+                  }}
+                  className={classNames(actionClassName, "hover:text-rose-200")}
+                >
+                  {member.id === userId ? "Leave" : "Remove"}
+                </button>
+              )}
+            </span>
+          </li>
+        ))}
+      </ul>
+      {canManage && (
+        <form
+          onSubmit={async (event) => {
+            event.preventDefault();
+            if (
+              await run(() =>
+                setMember(workspaceId, identifier.trim(), newRole),
+              )
+            ) {
+              setIdentifier("");
+            }
+          }}
+          className="flex flex-wrap items-center gap-2"
+        >
+          <input
+            value={identifier}
+            onChange={(event) => setIdentifier(event.currentTarget.value)}
+            placeholder="Username or email"
+            aria-label="New member"
+            className={classNames(fieldClassName, "min-w-40 flex-1")}
+          />
+          <select
+            value={newRole}
+            onChange={(event) =>
+              setNewRole(event.currentTarget.value as WorkspaceRole)
+            }
+            aria-label="New member's role"
+            className={selectClassName}
+          >
+            {assignable.map((option) => (
+              <option
+                key={option.value}
+                value={option.value}
+                title={option.description}
+              >
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            disabled={!identifier.trim()}
+            className={actionClassName}
+          >
+            Add member
+          </button>
+        </form>
+      )}
+      {error && <ErrorPanel error={error} />}
+    </div>
+  );
+}
+
+/**
+ * Sign-in, the active workspace and its members. Renders nothing while
+ * sign-in is turned off on the server.
+ */
+export function AccountPanel({
+  session,
+  onSessionChange,
+}: {
+  session: SessionResponse;
+  onSessionChange: (session: SessionResponse) => void;
+}) {
+  const [newWorkspace, setNewWorkspace] = useState<string | null>(null);
+  const [error, setError] = useState<GenerateErrorInfo | null>(null);
+  const { provider, user, workspaces, workspaceId } = session;
+  const active = workspaces.find((workspace) => workspace.id === workspaceId);
+
+  if (!provider) {
+    return null;
+  }
+
+  const run = async (change: () => Promise<SessionResponse>) => {
+    setError(null);
+    try {
+      onSessionChange(await change());
+    } catch (caught) {
+      setError(toErrorInfo(caught));
+    }
+  };
+
+  return (
+    <section
+      aria-label="Account"
+      className="flex flex-col gap-4 rounded-3xl border border-white/10 bg-white/5 p-6 backdrop-blur-lg"
+    >
+      {!user ? (
+        <>
+          <div>
+            <h2 className="text-base font-semibold text-white">Sign in</h2>
+            <p className="text-sm text-white/60">
+              Renders belong to a workspace. Sign in to generate and see your
+              team&apos;s.
+            </p>
+          </div>
+          <SignInForm provider={provider} onSignedIn={onSessionChange} />
+        </>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center justify-between gap-3 text-sm text-white/70">
+            <span>
+              Signed in as{" "}
+              <span className="font-medium text-white">{user.name}</span>
+            </span>
+            <div className="flex flex-wrap items-center gap-2">
+              <select
+                value={workspaceId ?? ""}
+                onChange={(event) => {
+                  const id = event.currentTarget.value;
+                  void run(() => switchWorkspace(id));
+                }}
+                aria-label="Workspace"
+                className={selectClassName}
+              >
+                {workspaces.map((workspace) => (
+                  <option key={workspace.id} value={workspace.id}>
+                    {workspace.name}
+                  </option>
+                ))}
+              </select>
+              {active && (
+                <span className="rounded-full border border-white/10 px-3 py-1 text-xs capitalize text-white/60">
+                  {active.role}
+                </span>
+              )}
+              <button
+                type="button"
+                onClick={() =>
+                  setNewWorkspace((prev) => (prev === null ? "" : null))
+                }
+                className={actionClassName}
+              >
+                New workspace
+              </button>
+              <button
+                type="button"
+                onClick={() =>
+                  void run(async () => {
+                    await signOut();
+                    return { provider, user: null, workspaces: [] };
+                  })
+                }
+                className={actionClassName}
+              >
+                Sign out
+              </button>
+            </div>
+          </div>
+          {newWorkspace !== null && (
+            <form
+              onSubmit={(event) => {
+                event.preventDefault();
+                void run(async () => {
+                  const created = await createWorkspace(newWorkspace);
+                  setNewWorkspace(null);
+                  return switchWorkspace(created.id);
+                });
+              }}
+              className="flex flex-wrap items-center gap-2"
+            >
+              <input
+                value={newWorkspace}
+                onChange={(event) => setNewWorkspace(event.currentTarget.value)}
+                placeholder="Workspace name"
+                aria-label="Workspace name"
+                className={classNames(fieldClassName, "min-w-40 flex-1")}
+              />
+              <button
+                type="submit"
+                disabled={!newWorkspace.trim()}
+                className={actionClassName}
+              >
+                Create
+              </button>
+            </form>
+          )}
+          {active && (
+            <details className="rounded-2xl border border-white/10 bg-black/20 px-4 py-3">
+              <summary className="cursor-pointer select-none text-sm text-white/70">
+                Members
+              </summary>
+              <div className="mt-4">
+                <MemberList
+                  key={active.id}
+                  workspaceId={active.id}
+                  role={active.role}
+                  userId={user.id}
+                  onLeave={() => void run(fetchSession)}
+                />
+              </div>
+            </details>
+          )}
+          {error && <ErrorPanel error={error} />}
+        </>
+      )}
+    </section>
+  );
+}
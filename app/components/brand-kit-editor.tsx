@@ -0,0 +1,247 @@
+import { useState } from "react";
+
+import {
+  type BrandKit,
+  brandTextLimits,
+  createBrandKit,
+  fontOptions,
+} from "@/lib/brand";
+import { classNames } from "@/lib/ui";
+
+const fieldClassName =
+  "w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none transition focus:border-white/30";
+
+const actionClassName =
+  "rounded-full border border-white/10 px-3 py-1 text-xs text-white/70 transition hover:border-white/30 hover:text-white disabled:cursor-not-allowed disabled:opacity-40";
+
+type TextField = "introText" | "outroText" | "watermark" | "cta";
+
+const textFields: Array<{
+  key: TextField;
+  label: string;
+  placeholder: string;
+}> = [
+  { key: "introText", label: "Intro text", placeholder: "Acme presents" },
+  { key: "outroText", label: "Outro text", placeholder: "Thanks for watching" },
+  { key: "watermark", label: "Watermark", placeholder: "@acme" },
+  { key: "cta", label: "Call to action", placeholder: "Shop at acme.com" },
+];
+
+function BrandPreview({ kit }: { kit: BrandKit }) {
+  return (
+    <div
+      className="flex items-center justify-between gap-3 rounded-xl px-4 py-3 text-sm"
+      style={{
+        backgroundColor: kit.secondaryColor,
+        color: kit.primaryColor,
+        fontFamily: kit.font,
+      }}
+    >
+      <span className="flex items-center gap-2">
+        {kit.logoUrl && (
+          <span
+            aria-hidden
+            className="h-6 w-6 bg-contain bg-center bg-no-repeat"
+            style={{ backgroundImage: `url(${kit.logoUrl})` }}
+          />
+        )}
+        {kit.introText || kit.name}
+      </span>
+      {kit.cta && (
+        <span className="rounded-full border border-current px-2 py-0.5 text-xs">
+          {kit.cta}
+        </span>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Picks the brand kit for the next generation and edits the saved kits.
+ */
+export function BrandKitEditor({
+  kits,
+  selectedId,
+  onSelect,
+  onSave,
+  onDelete,
+}: {
+  kits: BrandKit[];
+  selectedId?: string;
+  onSelect: (id: string | undefined) => void;
+  onSave: (kit: BrandKit) => void;
+  onDelete: (id: string) => void;
+}) {
+  const [draft, setDraft] = useState<BrandKit | null>(null);
+  const selected = kits.find((kit) => kit.id === selectedId);
+
+  const update = <K extends keyof BrandKit>(key: K, value: BrandKit[K]) =>
+    setDraft((prev) => prev && { ...prev, [key]: value });
+
+  const isLogoValid =
+    !draft?.logoUrl || draft.logoUrl.trim().startsWith("https://");
+
+  return (
+    <div className="grid gap-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          aria-label="Brand kit"
+          value={selectedId ?? ""}
+          onChange={(event) => onSelect(event.currentTarget.value || undefined)}
+          className={classNames(fieldClassName, "flex-1")}
+        >
+          <option value="">No brand kit</option>
+          {kits.map((kit) => (
+            <option key={kit.id} value={kit.id}>
+              {kit.name}
+            </option>
+          ))}
+        </select>
+        {selected && !draft && (
+          <button
+            type="button"
+            onClick={() => setDraft(selected)}
+            className={actionClassName}
+          >
+            Edit
+          </button>
+        )}
+        {!draft && (
+          <button
+            type="button"
+            onClick={() => setDraft(createBrandKit())}
+            className={actionClassName}
+          >
+            New kit
+          </button>
+        )}
+      </div>
+
+      {selected && !draft && <BrandPreview kit={selected} />}
+
+      {draft && (
+        <div className="grid gap-3 rounded-2xl border border-white/10 bg-black/20 p-4">
+          <div className="grid gap-3 sm:grid-cols-2">
+            <label className="flex flex-col gap-1.5 text-xs text-white/50">
+              Name
+              <input
+                value={draft.name}
+                maxLength={brandTextLimits.name}
+                onChange={(event) => update("name", event.currentTarget.value)}
+                className={fieldClassName}
+              />
+            </label>
+            <label className="flex flex-col gap-1.5 text-xs text-white/50">
+              Logo URL
+              <input
+                type="url"
+                value={draft.logoUrl ?? ""}
+                placeholder="https://…/logo.png"
+                onChange={(event) =>
+                  update("logoUrl", event.currentTarget.value || undefined)
+                }
+                className={classNames(
+                  fieldClassName,
+                  !isLogoValid && "border-rose-300/50",
+                )}
+              />
+            </label>
+            <label className="flex items-center justify-between gap-3 text-xs text-white/50">
+              Primary color
+              <input
+                type="color"
+                value={draft.primaryColor}
+                onChange={(event) =>
+                  update("primaryColor", event.currentTarget.value)
+                }
+                className="h-8 w-14 cursor-pointer rounded border border-white/10 bg-transparent"
+              />
+            </label>
+            <label className="flex items-center justify-between gap-3 text-xs text-white/50">
+              Secondary color
+              <input
+                type="color"
+                value={draft.secondaryColor}
+                onChange={(event) =>
+                  update("secondaryColor", event.currentTarget.value)
+                }
+                className="h-8 w-14 cursor-pointer rounded border border-white/10 bg-transparent"
+              />
+            </label>
+            <label className="flex flex-col gap-1.5 text-xs text-white/50 sm:col-span-2">
+              Font
+              <select
+                value={draft.font}
+                onChange={(event) => update("font", event.currentTarget.value)}
+                className={fieldClassName}
+              >
+                {fontOptions.map((font) => (
+                  <option key={font} value={font}>
+                    {font}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {textFields.map((field) => (
+              <label
+                key={field.key}
+                className="flex flex-col gap-1.5 text-xs text-white/50"
+              >
+                {field.label}
+                <input
+                  value={draft[field.key] ?? ""}
+                  maxLength={brandTextLimits[field.key]}
+                  placeholder={field.placeholder}
+                  onChange={(event) =>
+                    update(field.key, event.currentTarget.value || undefined)
+                  }
+                  className={fieldClassName}
+                />
+              </label>
+            ))}
+          </div>
+          <BrandPreview kit={draft} />
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            {kits.some((kit) => kit.id === draft.id) ? (
+              <button
+                type="button"
+                onClick={() => {
+                  onDelete(draft.id);
+                  setDraft(null);
+                }}
+                className={classNames(actionClassName, "hover:text-rose-200")}
+              >
+                Delete kit
+              </button>
+            ) : (
+              <span />
+            )}
+            <div className="flex items-center gap-2">
+              <button
+                type="button"
+                onClick={() => setDraft(null)}
+                className={actionClassName}
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                disabled={!draft.name.trim() || !isLogoValid}
+                onClick={() => {
+                  onSave({ ...draft, name: draft.name.trim() });
+                  setDraft(null);
+                }}
+                className={classNames(
+                  actionClassName,
+                  "border-white/30 text-white",
+                )}
+              >
+                Save kit
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+import {
+  type BriefOptions,
+  MAX_SCENES,
+  MIN_SCENES,
+  aspectRatioOptions,
+  captionStyleOptions,
+  durationOptions,
+  languageOptions,
+  musicMoodOptions,
+  voiceStyleOptions,
+} from "@/lib/brief";
+
+const fieldClassName =
+  "w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none transition focus:border-white/30";
+
+function Field({
+  label,
+  htmlFor,
+  children,
+}: {
+  label: string;
+  htmlFor: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="flex flex-col gap-1.5">
+      <label htmlFor={htmlFor} className="text-xs text-white/50">
+        {label}
+      </label>
+      {children}
+    </div>
+  );
+}
+
+export function BriefControls({
+  brief,
+  onChange,
+}: {
+  brief: BriefOptions;
+  onChange: (brief: BriefOptions) => void;
+}) {
+  const update = <K extends keyof BriefOptions>(
+    key: K,
+    value: BriefOptions[K],
+  ) => onChange({ ...brief, [key]: value });
+
+  return (
+    <div className="grid gap-3 sm:grid-cols-2">
+      <Field label="Aspect ratio" htmlFor="brief-aspect">
+        <select
+          id="brief-aspect"
+          value={brief.aspectRatio}
+          onChange={(event) =>
+            update(
+              "aspectRatio",
+              event.currentTarget.value as BriefOptions["aspectRatio"],
+            )
+          }
+          className={fieldClassName}
+        >
+          {aspectRatioOptions.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </Field>
+      <Field label="Target length" htmlFor="brief-duration">
+        <select
+          id="brief-duration"
+          value={brief.durationSeconds}
+          onChange={(event) =>
+            update("durationSeconds", Number(event.currentTarget.value))
+          }
+          className={fieldClassName}
+        >
+          {durationOptions.map((seconds) => (
+            <option key={seconds} value={seconds}>
+              {seconds} seconds
+            </option>
+          ))}
+        </select>
+      </Field>
+      <Field label={`Scenes (${brief.sceneCount})`} htmlFor="brief-scenes">
+        <input
+          id="brief-scenes"
+          type="range"
+          min={MIN_SCENES}
+          max={MAX_SCENES}
+          value={brief.sceneCount}
+          onChange={(event) =>
+            update("sceneCount", Number(event.currentTarget.value))
+          }
+          className="h-9 w-full accent-white"
+        />
+      </Field>
+      <Field label="Voice style" htmlFor="brief-voice">
+        <select
+          id="brief-voice"
+          value={brief.voiceStyle}
+          onChange={(event) =>
+            update(
+              "voiceStyle",
+              event.currentTarget.value as BriefOptions["voiceStyle"],
+            )
+          }
+          className={fieldClassName}
+        >
+          {voiceStyleOptions.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </Field>
+      <Field label="Music mood" htmlFor="brief-music">
+        <select
+          id="brief-music"
+          value={brief.musicMood}
+          onChange={(event) =>
+            update(
+              "musicMood",
+              event.currentTarget.value as BriefOptions["musicMood"],
+            )
+          }
+          className={fieldClassName}
+        >
+          {musicMoodOptions.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </Field>
+      <Field label="Captions" htmlFor="brief-captions">
+        <select
+          id="brief-captions"
+          value={brief.captionStyle}
+          onChange={(event) =>
+            update(
+              "captionStyle",
+              event.currentTarget.value as BriefOptions["captionStyle"],
+            )
+          }
+          className={fieldClassName}
+        >
+          {captionStyleOptions.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </Field>
+      <Field label="Language" htmlFor="brief-language">
+        <select
+          id="brief-language"
+          value={brief.language}
+          onChange={(event) => update("language", event.currentTarget.value)}
+          className={fieldClassName}
+        >
+          {languageOptions.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </Field>
+    </div>
+  );
+}
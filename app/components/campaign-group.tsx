@@ -0,0 +1,71 @@
+import { type ReactNode, useState } from "react";
+
+import { buildCampaignBundle } from "@/lib/bundle";
+import { downloadBlob, slugify } from "@/lib/download";
+import type { CampaignRef, GeneratedVideo } from "@/lib/types";
+import { classNames } from "@/lib/ui";
+
+const actionClassName =
+  "rounded-full border border-white/10 px-3 py-1 text-xs text-white/70 transition hover:border-white/30 hover:text-white";
+
+/** The gallery entry for a campaign: its renders under one header. */
+export function CampaignGroup({
+  campaign,
+  videos,
+  children,
+}: {
+  campaign: CampaignRef;
+  videos: GeneratedVideo[];
+  children: ReactNode;
+}) {
+  const [exportStatus, setExportStatus] = useState<
+    "idle" | "building" | "failed"
+  >("idle");
+
+  const handleExport = async () => {
+    setExportStatus("building");
+    try {
+      downloadBlob(
+        `${slugify(campaign.name, "campaign")}.zip`,
+        await buildCampaignBundle(campaign, videos),
+      );
+      setExportStatus("idle");
+    } catch (error) {
+      console.error(error);
+      setExportStatus("failed");
+    }
+  };
+
+  return (
+    <li className="grid gap-4 rounded-3xl border border-white/10 bg-white/[0.03] p-4">
+      <div className="flex flex-wrap items-center justify-between gap-3 px-2">
+        <div className="flex flex-col">
+          <span className="text-xs uppercase tracking-[0.2em] text-white/40">
+            Campaign
+          </span>
+          <span className="text-base font-medium text-white">
+            {campaign.name}
+          </span>
+        </div>
+        <div className="flex items-center gap-3">
+          <span className="text-xs text-white/50">
+            {videos.length === 1 ? "1 render" : `${videos.length} renders`}
+          </span>
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={exportStatus === "building"}
+            className={classNames(actionClassName, "disabled:opacity-50")}
+          >
+            {exportStatus === "building"
+              ? "Packing"
+              : exportStatus === "failed"
+                ? "Export failed"
+                : "Export campaign"}
+          </button>
+        </div>
+      </div>
+      <ul className="grid gap-6">{children}</ul>
+    </li>
+  );
+}
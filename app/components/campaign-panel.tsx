@@ -0,0 +1,256 @@
+import { useMemo, useState } from "react";
+
+import { ErrorPanel } from "@/app/components/error-panel";
+import { MAX_BATCH_ROWS, parseBatchInput } from "@/lib/batch";
+import type { GenerateErrorInfo } from "@/lib/errors";
+import type { CampaignResponse, CampaignRow, JobStatus } from "@/lib/types";
+import { classNames } from "@/lib/ui";
+
+const inputClassName =
+  "w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none transition focus:border-white/30";
+
+const actionClassName =
+  "rounded-full border border-white/10 px-3 py-1 text-xs text-white/70 transition hover:border-white/30 hover:text-white disabled:cursor-not-allowed disabled:opacity-40";
+
+const concurrencyOptions = [1, 2, 3, 5];
+
+const statusLabels: Record<JobStatus, string> = {
+  queued: "Waiting",
+  running: "Rendering",
+  succeeded: "Ready",
+  failed: "Failed",
+  cancelled: "Cancelled",
+};
+
+function CampaignRunCard({
+  run,
+  onDismiss,
+}: {
+  run: CampaignResponse;
+  onDismiss: (campaignId: string) => void;
+}) {
+  const { campaign, jobs, progress } = run;
+  const isActive = progress.queued + progress.running > 0;
+
+  return (
+    <li className="grid gap-3 rounded-2xl border border-white/10 bg-black/30 p-5 text-sm text-white/70">
+      <div className="flex items-center justify-between gap-4">
+        <span className="font-medium text-white">{campaign.name}</span>
+        <span className="text-xs text-white/50">
+          {progress.succeeded} of {progress.total} ready
+          {progress.failed > 0 && ` · ${progress.failed} failed`}
+          {progress.cancelled > 0 && ` · ${progress.cancelled} cancelled`}
+        </span>
+      </div>
+      <div className="h-2 w-full overflow-hidden rounded-full bg-white/10">
+        <div
+          className={classNames(
+            "h-full transition-all duration-500",
+            isActive
+              ? "bg-gradient-to-r from-sky-400 via-indigo-400 to-purple-400"
+              : "bg-emerald-400",
+          )}
+          style={{ width: `${progress.percent}%` }}
+        />
+      </div>
+      <details>
+        <summary className="cursor-pointer select-none text-xs text-white/50">
+          {progress.running} rendering · {progress.queued} waiting · up to{" "}
+          {campaign.concurrency} at a time
+        </summary>
+        <ol className="mt-2 grid gap-1 text-xs">
+          {jobs.map((job) => (
+            <li key={job.id} className="flex justify-between gap-3">
+              <span className="truncate">{job.topic}</span>
+              <span
+                className={classNames(
+                  "shrink-0",
+                  job.status === "succeeded" && "text-emerald-200",
+                  job.status === "failed" && "text-rose-200",
+                )}
+              >
+                {statusLabels[job.status]}
+                {job.status === "running" && ` · ${job.progress}%`}
+              </span>
+            </li>
+          ))}
+        </ol>
+      </details>
+      {!isActive && (
+        <button
+          type="button"
+          onClick={() => onDismiss(campaign.id)}
+          className={classNames(actionClassName, "justify-self-end")}
+        >
+          Dismiss
+        </button>
+      )}
+    </li>
+  );
+}
+
+/** Queues many topics at once as a named campaign and tracks their progress. */
+export function CampaignPanel({
+  runs,
+  disabled,
+  onStart,
+  onDismiss,
+}: {
+  runs: CampaignResponse[];
+  /** Why batches can't start right now, if they can't. */
+  disabled?: string;
+  onStart: (
+    name: string,
+    rows: CampaignRow[],
+    concurrency: number,
+  ) => Promise<GenerateErrorInfo | null>;
+  onDismiss: (campaignId: string) => void;
+}) {
+  const [name, setName] = useState("");
+  const [input, setInput] = useState("");
+  const [concurrency, setConcurrency] = useState(2);
+  const [isStarting, setIsStarting] = useState(false);
+  const [error, setError] = useState<GenerateErrorInfo | null>(null);
+
+  const rows = useMemo(() => parseBatchInput(input), [input]);
+  const validRows = rows.filter((row) => row.issues.length === 0);
+  const invalidRows = rows.filter((row) => row.issues.length > 0);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) {
+      return;
+    }
+    setInput(await file.text());
+    if (!name.trim()) {
+      setName(file.name.replace(/\.[^.]+$/, ""));
+    }
+  };
+
+  const handleStart = async () => {
+    setIsStarting(true);
+    setError(null);
+    const failure = await onStart(
+      name.trim(),
+      validRows.map(({ topic, brief }) => ({ topic, brief })),
+      concurrency,
+    );
+    setIsStarting(false);
+
+    if (failure) {
+      setError(failure);
+      return;
+    }
+    setInput("");
+    setName("");
+  };
+
+  return (
+    <section
+      aria-label="Batch campaign"
+      className="grid gap-6 rounded-3xl border border-white/10 bg-white/5 p-8 backdrop-blur-lg"
+    >
+      <div className="flex flex-col gap-2">
+        <h2 className="text-xl font-semibold text-white">Batch a campaign</h2>
+        <p className="text-sm text-white/60">
+          Paste one topic per line, or a CSV with a <code>topic</code> column
+          and optional <code>ratio</code>, <code>voice</code>,{" "}
+          <code>duration</code>, <code>scenes</code>, <code>music</code>,{" "}
+          <code>captions</code> and <code>language</code> columns. Anything a
+          row leaves out comes from the brief settings above.
+        </p>
+      </div>
+      <div className="grid gap-3 sm:grid-cols-[1fr_auto_auto] sm:items-end">
+        <label className="flex flex-col gap-2 text-xs text-white/50">
+          Campaign name
+          <input
+            value={name}
+            onChange={(event) => setName(event.currentTarget.value)}
+            placeholder="Spring launch"
+            className={inputClassName}
+          />
+        </label>
+        <label className="flex flex-col gap-2 text-xs text-white/50">
+          At a time
+          <select
+            value={concurrency}
+            onChange={(event) =>
+              setConcurrency(Number(event.currentTarget.value))
+            }
+            className={inputClassName}
+          >
+            {concurrencyOptions.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className={classNames(actionClassName, "cursor-pointer py-2")}>
+          Upload CSV
+          <input
+            type="file"
+            accept=".csv,text/csv,text/plain"
+            className="sr-only"
+            onChange={(event) => {
+              void handleFile(event.currentTarget.files?.[0]);
+              event.currentTarget.value = "";
+            }}
+          />
+        </label>
+      </div>
+      <textarea
+        rows={6}
+        value={input}
+        onChange={(event) => setInput(event.currentTarget.value)}
+        placeholder={
+          "topic,ratio,voice\nMorning routines,9:16,energetic\nBudget travel in Lisbon,16:9,calm"
+        }
+        aria-label="Campaign topics"
+        className={classNames(inputClassName, "resize-y font-mono text-xs")}
+      />
+      {invalidRows.length > 0 && (
+        <ul className="grid gap-1 rounded-xl border border-amber-300/30 bg-amber-300/5 px-3 py-2 text-xs text-amber-100/80">
+          {invalidRows.map((row) => (
+            <li key={row.line}>
+              Line {row.line}: {row.issues.join(" ")}
+            </li>
+          ))}
+        </ul>
+      )}
+      {error && <ErrorPanel error={error} />}
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <span className="text-xs text-white/50">
+          {disabled ??
+            (validRows.length > 0
+              ? `${validRows.length} topics ready${
+                  invalidRows.length > 0
+                    ? `, ${invalidRows.length} skipped`
+                    : ""
+                } · up to ${MAX_BATCH_ROWS} per campaign`
+              : "No topics yet")}
+        </span>
+        <button
+          type="button"
+          onClick={handleStart}
+          disabled={
+            !!disabled || isStarting || !name.trim() || validRows.length === 0
+          }
+          className="rounded-full bg-white px-5 py-2 text-sm font-semibold text-black transition hover:bg-white/90 disabled:cursor-not-allowed disabled:bg-white/50"
+        >
+          {isStarting ? "Queuing" : "Start campaign"}
+        </button>
+      </div>
+      {runs.length > 0 && (
+        <ul className="grid gap-4">
+          {runs.map((run) => (
+            <CampaignRunCard
+              key={run.campaign.id}
+              run={run}
+              onDismiss={onDismiss}
+            />
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
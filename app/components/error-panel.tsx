@@ -0,0 +1,42 @@
+import { type GenerateErrorInfo, errorCatalog } from "@/lib/errors";
+
+export function ErrorPanel({ error }: { error: GenerateErrorInfo }) {
+  const description = errorCatalog[error.code];
+  const hasDetail = error.detail || error.upstreamStatus;
+
+  return (
+    <div className="flex flex-col gap-2 text-sm text-rose-200">
+      <p>
+        <span className="font-medium text-rose-100">{description.title}.</span>{" "}
+        {error.message}
+      </p>
+      <p className="text-xs text-white/60">
+        {error.retryAfterSeconds !== undefined
+          ? `${description.retryHint} Resets in about ${error.retryAfterSeconds}s.`
+          : description.retryHint}
+      </p>
+      {hasDetail && (
+        <details className="rounded-xl border border-white/10 bg-black/40 px-3 py-2 text-xs text-white/60">
+          <summary className="cursor-pointer select-none text-white/70">
+            Technical details
+          </summary>
+          <dl className="mt-2 grid grid-cols-[auto_1fr] gap-x-3 gap-y-1">
+            <dt className="text-white/40">Code</dt>
+            <dd className="font-mono">{error.code}</dd>
+            {error.upstreamStatus && (
+              <>
+                <dt className="text-white/40">HTTP status</dt>
+                <dd className="font-mono">{error.upstreamStatus}</dd>
+              </>
+            )}
+          </dl>
+          {error.detail && (
+            <pre className="mt-2 max-h-48 overflow-auto whitespace-pre-wrap break-all font-mono text-[11px] text-white/50">
+              {error.detail}
+            </pre>
+          )}
+        </details>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+import { useState } from "react";
+
+import { ErrorPanel } from "@/app/components/error-panel";
+import { searchFootage, toErrorInfo } from "@/lib/api-client";
+import { defaultBrief } from "@/lib/brief";
+import type { GenerateErrorInfo } from "@/lib/errors";
+import type {
+  ClipSelection,
+  FootageCandidate,
+  GeneratedVideo,
+  Scene,
+} from "@/lib/types";
+import { classNames } from "@/lib/ui";
+
+type SearchState = {
+  loading: boolean;
+  candidates: FootageCandidate[];
+  error?: GenerateErrorInfo;
+};
+
+const actionClassName =
+  "rounded-full border border-white/10 px-3 py-1 text-xs text-white/70 transition hover:border-white/30 hover:text-white disabled:cursor-not-allowed disabled:opacity-40";
+
+function searchQuery(scene: Scene) {
+  return scene.keywords.length > 0
+    ? scene.keywords.join(" ")
+    : scene.visualDescription;
+}
+
+export function FootagePicker({
+  video,
+  isSubmitting,
+  error,
+  onRerender,
+  onClose,
+}: {
+  video: GeneratedVideo & { scenes: Scene[] };
+  isSubmitting: boolean;
+  error: GenerateErrorInfo | null;
+  onRerender: (clips: ClipSelection[]) => void;
+  onClose: () => void;
+}) {
+  const aspectRatio = video.brief?.aspectRatio ?? defaultBrief.aspectRatio;
+  const [searches, setSearches] = useState<Record<number, SearchState>>({});
+  const [selections, setSelections] = useState<Record<number, string>>({});
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+
+  const currentClip = (sceneNumber: number) =>
+    video.videoClips?.find((clip) => clip.sceneNumber === sceneNumber)
+      ?.videoUrl;
+
+  const findAlternatives = async (scene: Scene) => {
+    setSearches((prev) => ({
+      ...prev,
+      [scene.sceneNumber]: { loading: true, candidates: [] },
+    }));
+
+    try {
+      const candidates = await searchFootage(searchQuery(scene), aspectRatio);
+      setSearches((prev) => ({
+        ...prev,
+        [scene.sceneNumber]: {
+          loading: false,
+          candidates: candidates.filter(
+            (candidate) =>
+              candidate.videoUrl !== currentClip(scene.sceneNumber),
+          ),
+        },
+      }));
+    } catch (error) {
+      setSearches((prev) => ({
+        ...prev,
+        [scene.sceneNumber]: {
+          loading: false,
+          candidates: [],
+          error: toErrorInfo(error),
+        },
+      }));
+    }
+  };
+
+  const toggleSelection = (sceneNumber: number, videoUrl: string) =>
+    setSelections((prev) => {
+      const next = { ...prev };
+      if (next[sceneNumber] === videoUrl) {
+        delete next[sceneNumber];
+      } else {
+        next[sceneNumber] = videoUrl;
+      }
+      return next;
+    });
+
+  // Keep the footage of untouched scenes so only the swapped ones change.
+  const clips = video.scenes.flatMap((scene) => {
+    const videoUrl =
+      selections[scene.sceneNumber] ?? currentClip(scene.sceneNumber);
+    return videoUrl ? [{ sceneNumber: scene.sceneNumber, videoUrl }] : [];
+  });
+  const swapCount = Object.keys(selections).length;
+
+  return (
+    <div className="grid gap-5 border-t border-white/10 bg-black/30 px-6 py-5 text-sm text-white/70">
+      <div className="flex items-center justify-between gap-4">
+        <span className="font-medium text-white">Swap footage</span>
+        <button type="button" onClick={onClose} className={actionClassName}>
+          Close
+        </button>
+      </div>
+      {previewUrl && (
+        <video
+          key={previewUrl}
+          src={previewUrl}
+          autoPlay
+          muted
+          loop
+          playsInline
+          controls
+          className="max-h-80 w-full rounded-2xl bg-black object-contain"
+        />
+      )}
+      <ol className="grid gap-4">
+        {video.scenes.map((scene) => {
+          const search = searches[scene.sceneNumber];
+          const current = currentClip(scene.sceneNumber);
+
+          return (
+            <li
+              key={scene.sceneNumber}
+              className="grid gap-3 rounded-2xl border border-white/10 p-4"
+            >
+              <div className="flex flex-wrap items-start justify-between gap-3">
+                <div className="flex flex-col gap-1">
+                  <span className="text-white/90">
+                    Scene {scene.sceneNumber}
+                  </span>
+                  <span className="text-xs text-white/50">
+                    {scene.narration}
+                  </span>
+                </div>
+                <div className="flex gap-2">
+                  {current && (
+                    <button
+                      type="button"
+                      onClick={() => setPreviewUrl(current)}
+                      className={actionClassName}
+                    >
+                      Preview current
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => findAlternatives(scene)}
+                    disabled={search?.loading}
+                    className={actionClassName}
+                  >
+                    {search?.loading ? "Searching" : "Find alternatives"}
+                  </button>
+                </div>
+              </div>
+              {search?.error && <ErrorPanel error={search.error} />}
+              {search && !search.loading && !search.error && (
+                <ul className="grid grid-cols-3 gap-2 sm:grid-cols-6">
+                  {search.candidates.length === 0 && (
+                    <li className="col-span-full text-xs text-white/50">
+                      No other clips matched &ldquo;{searchQuery(scene)}
+                      &rdquo;.
+                    </li>
+                  )}
+                  {search.candidates.map((candidate) => {
+                    const isSelected =
+                      selections[scene.sceneNumber] === candidate.videoUrl;
+
+                    return (
+                      <li key={candidate.id} className="flex flex-col gap-1">
+                        <button
+                          type="button"
+                          onClick={() => setPreviewUrl(candidate.videoUrl)}
+                          title={
+                            candidate.author
+                              ? `Preview clip by ${candidate.author}`
+                              : "Preview clip"
+                          }
+                          className={classNames(
+                            "aspect-square overflow-hidden rounded-xl border border-white/10 bg-white/5 bg-cover bg-center transition hover:border-white/40",
+                            isSelected && "border-sky-300 ring-2 ring-sky-300",
+                          )}
+                          style={
+                            candidate.previewImageUrl
+                              ? {
+                                  backgroundImage: `url(${candidate.previewImageUrl})`,
+                                }
+                              : undefined
+                          }
+                        />
+                        <button
+                          type="button"
+                          onClick={() =>
+                            toggleSelection(
+                              scene.sceneNumber,
+                              candidate.videoUrl,
+                            )
+                          }
+                          aria-pressed={isSelected}
+                          className={classNames(
+                            actionClassName,
+                            "px-2",
+                            isSelected && "border-sky-300/50 text-sky-200",
+                          )}
+                        >
+                          {isSelected ? "Chosen" : "Use"}
+                        </button>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+      {error && <ErrorPanel error={error} />}
+      <div className="flex items-center justify-end">
+        <button
+          type="button"
+          onClick={() => onRerender(clips)}
+          disabled={swapCount === 0 || isSubmitting}
+          className="inline-flex items-center justify-center rounded-full bg-white px-5 py-2 text-sm font-semibold text-black transition hover:bg-white/90 disabled:cursor-not-allowed disabled:bg-white/50"
+        >
+          {isSubmitting
+            ? "Queuing render"
+            : swapCount === 1
+              ? "Re-render with 1 swap"
+              : `Re-render with ${swapCount} swaps`}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+import { aspectRatioOptions } from "@/lib/brief";
+import {
+  type GalleryFilters,
+  dateRangeOptions,
+  defaultGalleryFilters,
+  isFiltered,
+  sortOptions,
+  sourceOptions,
+} from "@/lib/gallery";
+import type { CampaignRef } from "@/lib/types";
+
+const fieldClassName =
+  "rounded-full border border-white/10 bg-black/30 px-3 py-1 text-xs text-white outline-none focus:border-white/30";
+
+/** Search, filters and sort order for the render gallery. */
+export function GalleryFilterBar({
+  filters,
+  campaigns,
+  shown,
+  total,
+  onChange,
+}: {
+  filters: GalleryFilters;
+  /** Campaigns that have renders in the gallery. */
+  campaigns: CampaignRef[];
+  shown: number;
+  total: number;
+  onChange: (filters: GalleryFilters) => void;
+}) {
+  const set = <K extends keyof GalleryFilters>(
+    key: K,
+    value: GalleryFilters[K],
+  ) => onChange({ ...filters, [key]: value });
+
+  return (
+    <div className="flex flex-col gap-3">
+      <input
+        type="search"
+        value={filters.query}
+        onChange={(event) => set("query", event.currentTarget.value)}
+        placeholder="Search prompts and titles"
+        aria-label="Search renders"
+        className="w-full rounded-full border border-white/10 bg-black/30 px-4 py-2 text-sm text-white outline-none transition focus:border-white/30"
+      />
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={filters.ratio}
+          onChange={(event) =>
+            set("ratio", event.currentTarget.value as GalleryFilters["ratio"])
+          }
+          aria-label="Aspect ratio"
+          className={fieldClassName}
+        >
+          <option value="all">Any ratio</option>
+          {aspectRatioOptions.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filters.date}
+          onChange={(event) =>
+            set("date", event.currentTarget.value as GalleryFilters["date"])
+          }
+          aria-label="Created"
+          className={fieldClassName}
+        >
+          {dateRangeOptions.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        {campaigns.length > 0 && (
+          <select
+            value={filters.campaign}
+            onChange={(event) => set("campaign", event.currentTarget.value)}
+            aria-label="Campaign"
+            className={fieldClassName}
+          >
+            <option value="all">All campaigns</option>
+            <option value="none">Single renders</option>
+            {campaigns.map((campaign) => (
+              <option key={campaign.id} value={campaign.id}>
+                {campaign.name}
+              </option>
+            ))}
+          </select>
+        )}
+        <select
+          value={filters.source}
+          onChange={(event) =>
+            set("source", event.currentTarget.value as GalleryFilters["source"])
+          }
+          aria-label="Real or simulated"
+          className={fieldClassName}
+        >
+          {sourceOptions.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filters.sort}
+          onChange={(event) =>
+            set("sort", event.currentTarget.value as GalleryFilters["sort"])
+          }
+          aria-label="Sort by"
+          className={fieldClassName}
+        >
+          {sortOptions.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        {isFiltered(filters) && (
+          <>
+            <span className="text-xs text-white/50">
+              {shown} of {total}
+            </span>
+            <button
+              type="button"
+              onClick={() =>
+                onChange({ ...defaultGalleryFilters, sort: filters.sort })
+              }
+              className="text-xs text-white/60 underline-offset-4 transition hover:text-white hover:underline"
+            >
+              Reset
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
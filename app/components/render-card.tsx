@@ -0,0 +1,372 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+
+import { FootagePicker } from "@/app/components/footage-picker";
+import { TranscriptPanel } from "@/app/components/transcript-panel";
+import { publishRender } from "@/lib/api-client";
+import { buildBundle } from "@/lib/bundle";
+import { cuesForVideo, toSrt, toVtt } from "@/lib/captions";
+import { downloadBlob, downloadText, slugify } from "@/lib/download";
+import type { GenerateErrorInfo } from "@/lib/errors";
+import {
+  measuredPatch,
+  playerAspectRatio,
+  videoAspectRatio,
+} from "@/lib/gallery";
+import type { ClipSelection, GeneratedVideo } from "@/lib/types";
+import { classNames, formatDate } from "@/lib/ui";
+
+const actionClassName =
+  "rounded-full border border-white/10 px-3 py-1 text-xs text-white/70 transition hover:border-white/30 hover:text-white";
+
+export function RenderCard({
+  video,
+  version,
+  parent,
+  isComparing,
+  onTogglePin,
+  onDelete,
+  onRerender,
+  onRemix,
+  onToggleCompare,
+  onCompareWithParent,
+  onMeasured,
+}: {
+  video: GeneratedVideo;
+  version: number;
+  /** The render this one was remixed from, while it's still in the gallery. */
+  parent?: GeneratedVideo;
+  isComparing: boolean;
+  onTogglePin: (video: GeneratedVideo) => void;
+  onDelete: (video: GeneratedVideo) => void;
+  onRerender: (
+    video: GeneratedVideo,
+    clips: ClipSelection[],
+  ) => Promise<GenerateErrorInfo | null>;
+  onRemix: (video: GeneratedVideo) => void;
+  onToggleCompare: (video: GeneratedVideo) => void;
+  onCompareWithParent: (video: GeneratedVideo) => void;
+  /** Reports dimensions or a duration the loaded player disagrees on. */
+  onMeasured: (video: GeneratedVideo, patch: Partial<GeneratedVideo>) => void;
+}) {
+  const [isSwapping, setIsSwapping] = useState(false);
+  const [isTranscriptOpen, setIsTranscriptOpen] = useState(false);
+  const [videoTime, setVideoTime] = useState(0);
+  const [audioTime, setAudioTime] = useState<number | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [isRerendering, setIsRerendering] = useState(false);
+  const [rerenderError, setRerenderError] = useState<GenerateErrorInfo | null>(
+    null,
+  );
+  const [captionTrackUrl, setCaptionTrackUrl] = useState<string>();
+  const [canShare, setCanShare] = useState(false);
+  const [bundleStatus, setBundleStatus] = useState<
+    "idle" | "building" | "failed"
+  >("idle");
+  const [linkStatus, setLinkStatus] = useState<"idle" | "copied" | "failed">(
+    "idle",
+  );
+  const { scenes } = video;
+  const cues = useMemo(() => cuesForVideo(video), [video]);
+  const fileName = slugify(video.title ?? video.prompt);
+  // Vertical players are tall enough to carry the title over the picture;
+  // square and landscape ones get it above instead.
+  const isVertical = videoAspectRatio(video) === "9:16";
+
+  useEffect(() => {
+    if (cues.length === 0) {
+      setCaptionTrackUrl(undefined);
+      return;
+    }
+
+    const url = URL.createObjectURL(
+      new Blob([toVtt(cues)], { type: "text/vtt" }),
+    );
+    setCaptionTrackUrl(url);
+
+    return () => URL.revokeObjectURL(url);
+  }, [cues]);
+
+  useEffect(() => {
+    setCanShare(typeof navigator.share === "function");
+  }, []);
+
+  useEffect(() => {
+    if (linkStatus === "idle") {
+      return;
+    }
+    const timer = window.setTimeout(() => setLinkStatus("idle"), 2000);
+    return () => window.clearTimeout(timer);
+  }, [linkStatus]);
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(await publishRender(video));
+      setLinkStatus("copied");
+    } catch (error) {
+      console.error(error);
+      setLinkStatus("failed");
+    }
+  };
+
+  const handleShare = async () => {
+    try {
+      await navigator.share({
+        title: video.title ?? video.prompt,
+        text: video.prompt,
+        url: await publishRender(video),
+      });
+    } catch (error) {
+      if (!(error instanceof DOMException && error.name === "AbortError")) {
+        console.error(error);
+        setLinkStatus("failed");
+      }
+    }
+  };
+
+  const handleDownloadBundle = async () => {
+    setBundleStatus("building");
+    try {
+      downloadBlob(`${fileName}.zip`, await buildBundle(video));
+      setBundleStatus("idle");
+    } catch (error) {
+      console.error(error);
+      setBundleStatus("failed");
+    }
+  };
+
+  // While the narration plays on its own, the transcript follows it instead.
+  const handleSeek = (seconds: number) => {
+    const media = audioTime !== null ? audioRef.current : videoRef.current;
+    if (!media) {
+      return;
+    }
+    media.currentTime = seconds;
+    void media.play().catch(() => undefined);
+  };
+
+  const handleRerender = async (clips: ClipSelection[]) => {
+    setIsRerendering(true);
+    const error = await onRerender(video, clips);
+    setIsRerendering(false);
+    setRerenderError(error);
+    if (!error) {
+      setIsSwapping(false);
+    }
+  };
+
+  return (
+    <li
+      className={classNames(
+        "group relative overflow-hidden rounded-3xl border border-white/10 bg-black/40",
+        video.pinned && "border-sky-300/40",
+      )}
+    >
+      <div
+        className={classNames(
+          "flex items-center justify-between gap-3 px-6 py-4 text-sm text-white/80",
+          isVertical
+            ? "absolute inset-x-0 top-0 z-10 bg-gradient-to-b from-black/70 via-black/30 to-transparent"
+            : "border-b border-white/10",
+        )}
+      >
+        <span className="flex flex-col">
+          <span className="font-medium text-white">
+            {video.title ?? video.prompt}
+          </span>
+          {video.title && (
+            <span className="text-xs text-white/60">{video.prompt}</span>
+          )}
+          {video.parentId && (
+            <span className="text-xs text-white/50">
+              Remixed from{" "}
+              {parent ? (parent.title ?? parent.prompt) : "a deleted render"}
+            </span>
+          )}
+        </span>
+        <span className="shrink-0 rounded-full border border-white/10 bg-white/10 px-3 py-1 text-xs text-white/70">
+          {version > 1 && `v${version} · `}
+          {video.duration !== undefined && `${Math.round(video.duration)}s · `}
+          {formatDate(video.createdAt)}
+        </span>
+      </div>
+      {video.simulated && (
+        <span className="absolute right-4 top-16 z-10 rounded-full border border-white/20 bg-black/60 px-3 py-1 text-[11px] uppercase tracking-[0.18em] text-white/70">
+          Simulated
+        </span>
+      )}
+      <video
+        ref={videoRef}
+        src={video.url}
+        onLoadedMetadata={(event) => {
+          const patch = measuredPatch(video, event.currentTarget);
+          if (patch) {
+            onMeasured(video, patch);
+          }
+        }}
+        onTimeUpdate={(event) => setVideoTime(event.currentTarget.currentTime)}
+        controls
+        playsInline
+        poster={video.thumbnailUrl}
+        style={{ aspectRatio: playerAspectRatio(video) }}
+        className="block max-h-[70vh] w-full bg-black object-contain transition duration-500 group-hover:scale-[1.01]"
+      >
+        {captionTrackUrl && (
+          <track
+            kind="subtitles"
+            src={captionTrackUrl}
+            srcLang={video.brief?.language ?? "en"}
+            label="Captions"
+            default
+          />
+        )}
+      </video>
+      <div className="flex flex-wrap items-center justify-end gap-2 border-t border-white/10 px-6 py-3">
+        <button
+          type="button"
+          onClick={handleCopyLink}
+          className={actionClassName}
+        >
+          {linkStatus === "copied"
+            ? "Link copied"
+            : linkStatus === "failed"
+              ? "Couldn't share"
+              : "Copy link"}
+        </button>
+        {canShare && (
+          <button
+            type="button"
+            onClick={handleShare}
+            className={actionClassName}
+          >
+            Share
+          </button>
+        )}
+        {cues.length > 0 && (
+          <>
+            <button
+              type="button"
+              onClick={() =>
+                downloadText(
+                  `${fileName}.srt`,
+                  toSrt(cues),
+                  "application/x-subrip",
+                )
+              }
+              className={actionClassName}
+            >
+              SRT
+            </button>
+            <button
+              type="button"
+              onClick={() =>
+                downloadText(`${fileName}.vtt`, toVtt(cues), "text/vtt")
+              }
+              className={actionClassName}
+            >
+              VTT
+            </button>
+          </>
+        )}
+        <button
+          type="button"
+          onClick={handleDownloadBundle}
+          disabled={bundleStatus === "building"}
+          className={classNames(actionClassName, "disabled:opacity-50")}
+        >
+          {bundleStatus === "building"
+            ? "Packing"
+            : bundleStatus === "failed"
+              ? "Bundle failed"
+              : "Download bundle"}
+        </button>
+        {((scenes && scenes.length > 0) || video.narration) && (
+          <button
+            type="button"
+            onClick={() => {
+              setIsTranscriptOpen((prev) => !prev);
+              setAudioTime(null);
+            }}
+            aria-expanded={isTranscriptOpen}
+            className={actionClassName}
+          >
+            Transcript
+          </button>
+        )}
+        {scenes && scenes.length > 0 && !video.simulated && (
+          <button
+            type="button"
+            onClick={() => setIsSwapping((prev) => !prev)}
+            aria-expanded={isSwapping}
+            className={actionClassName}
+          >
+            Swap footage
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={() => onRemix(video)}
+          className={actionClassName}
+        >
+          Remix
+        </button>
+        {parent && (
+          <button
+            type="button"
+            onClick={() => onCompareWithParent(video)}
+            className={actionClassName}
+          >
+            Compare with v{version - 1}
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={() => onToggleCompare(video)}
+          aria-pressed={isComparing}
+          className={classNames(
+            actionClassName,
+            isComparing && "border-sky-300/50 text-sky-200",
+          )}
+        >
+          {isComparing ? "Comparing" : "Compare"}
+        </button>
+        <button
+          type="button"
+          onClick={() => onTogglePin(video)}
+          aria-pressed={video.pinned ?? false}
+          className={classNames(
+            actionClassName,
+            video.pinned && "border-sky-300/50 text-sky-200",
+          )}
+        >
+          {video.pinned ? "Pinned" : "Pin"}
+        </button>
+        <button
+          type="button"
+          onClick={() => onDelete(video)}
+          className={classNames(actionClassName, "hover:text-rose-200")}
+        >
+          Delete
+        </button>
+      </div>
+      {isTranscriptOpen && (
+        <TranscriptPanel
+          video={video}
+          currentTime={audioTime ?? videoTime}
+          onSeek={handleSeek}
+          audioRef={audioRef}
+          onAudioTime={setAudioTime}
+        />
+      )}
+      {isSwapping && scenes && (
+        <FootagePicker
+          video={{ ...video, scenes }}
+          isSubmitting={isRerendering}
+          error={rerenderError}
+          onRerender={handleRerender}
+          onClose={() => setIsSwapping(false)}
+        />
+      )}
+    </li>
+  );
+}
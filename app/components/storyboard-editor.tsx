@@ -0,0 +1,214 @@
+import { ErrorPanel } from "@/app/components/error-panel";
+import type { GenerateErrorInfo } from "@/lib/errors";
+import type { Scene, Storyboard } from "@/lib/types";
+
+const inputClassName =
+  "w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none transition focus:border-white/30";
+
+const actionClassName =
+  "rounded-full border border-white/10 px-3 py-1 text-xs text-white/70 transition hover:border-white/30 hover:text-white disabled:cursor-not-allowed disabled:opacity-40";
+
+function renumber(scenes: Scene[]) {
+  return scenes.map((scene, index) => ({ ...scene, sceneNumber: index + 1 }));
+}
+
+export function StoryboardEditor({
+  storyboard,
+  isSubmitting,
+  error,
+  onChange,
+  onApprove,
+  onDiscard,
+}: {
+  storyboard: Storyboard;
+  isSubmitting: boolean;
+  error: GenerateErrorInfo | null;
+  onChange: (storyboard: Storyboard) => void;
+  onApprove: () => void;
+  onDiscard: () => void;
+}) {
+  const { scenes } = storyboard;
+  const totalDuration = scenes.reduce((sum, scene) => sum + scene.duration, 0);
+
+  const updateScenes = (next: Scene[]) =>
+    onChange({ ...storyboard, scenes: renumber(next) });
+
+  const updateScene = (index: number, patch: Partial<Scene>) =>
+    updateScenes(
+      scenes.map((scene, current) =>
+        current === index ? { ...scene, ...patch } : scene,
+      ),
+    );
+
+  const moveScene = (index: number, offset: -1 | 1) => {
+    const next = [...scenes];
+    const [scene] = next.splice(index, 1);
+    next.splice(index + offset, 0, scene);
+    updateScenes(next);
+  };
+
+  const addScene = () =>
+    updateScenes([
+      ...scenes,
+      {
+        sceneNumber: scenes.length + 1,
+        duration: 5,
+        narration: "",
+        keywords: [],
+        visualDescription: "",
+      },
+    ]);
+
+  const canApprove =
+    scenes.length > 0 &&
+    scenes.every((scene) => scene.narration.trim() && scene.duration > 0);
+
+  return (
+    <section
+      aria-label="Storyboard review"
+      className="grid gap-6 rounded-3xl border border-white/10 bg-white/5 p-8 backdrop-blur-lg"
+    >
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div className="flex flex-1 flex-col gap-2">
+          <label
+            htmlFor="storyboard-title"
+            className="text-sm font-medium text-white/70"
+          >
+            Review the storyboard before rendering
+          </label>
+          <input
+            id="storyboard-title"
+            value={storyboard.title}
+            onChange={(event) =>
+              onChange({ ...storyboard, title: event.currentTarget.value })
+            }
+            placeholder="Video title"
+            className={`${inputClassName} text-base`}
+          />
+        </div>
+        <span className="text-xs text-white/50">
+          {scenes.length} scenes · {totalDuration}s
+        </span>
+      </div>
+      <ol className="grid gap-4">
+        {scenes.map((scene, index) => (
+          <li
+            key={index}
+            className="grid gap-3 rounded-2xl border border-white/10 bg-black/30 p-5"
+          >
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <span className="text-sm font-semibold text-white/90">
+                Scene {scene.sceneNumber}
+              </span>
+              <div className="flex flex-wrap items-center gap-2">
+                <label className="flex items-center gap-2 text-xs text-white/50">
+                  Seconds
+                  <input
+                    type="number"
+                    min={1}
+                    max={60}
+                    value={scene.duration}
+                    onChange={(event) =>
+                      updateScene(index, {
+                        duration: Math.max(
+                          0,
+                          Number(event.currentTarget.value) || 0,
+                        ),
+                      })
+                    }
+                    className={`${inputClassName} w-20 py-1`}
+                  />
+                </label>
+                <button
+                  type="button"
+                  onClick={() => moveScene(index, -1)}
+                  disabled={index === 0}
+                  aria-label={`Move scene ${scene.sceneNumber} up`}
+                  className={actionClassName}
+                >
+                  ↑
+                </button>
+                <button
+                  type="button"
+                  onClick={() => moveScene(index, 1)}
+                  disabled={index === scenes.length - 1}
+                  aria-label={`Move scene ${scene.sceneNumber} down`}
+                  className={actionClassName}
+                >
+                  ↓
+                </button>
+                <button
+                  type="button"
+                  onClick={() =>
+                    updateScenes(
+                      scenes.filter((_scene, current) => current !== index),
+                    )
+                  }
+                  disabled={scenes.length === 1}
+                  className={`${actionClassName} hover:text-rose-200`}
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+            <textarea
+              rows={2}
+              value={scene.narration}
+              onChange={(event) =>
+                updateScene(index, { narration: event.currentTarget.value })
+              }
+              placeholder="Narration"
+              aria-label={`Scene ${scene.sceneNumber} narration`}
+              className={`${inputClassName} resize-none`}
+            />
+            <div className="grid gap-3 sm:grid-cols-2">
+              <input
+                value={scene.visualDescription}
+                onChange={(event) =>
+                  updateScene(index, {
+                    visualDescription: event.currentTarget.value,
+                  })
+                }
+                placeholder="What should be on screen"
+                aria-label={`Scene ${scene.sceneNumber} visual description`}
+                className={inputClassName}
+              />
+              <input
+                value={scene.keywords.join(", ")}
+                onChange={(event) =>
+                  updateScene(index, {
+                    keywords: event.currentTarget.value
+                      .split(",")
+                      .map((keyword) => keyword.trimStart()),
+                  })
+                }
+                placeholder="Footage keywords, comma separated"
+                aria-label={`Scene ${scene.sceneNumber} keywords`}
+                className={inputClassName}
+              />
+            </div>
+          </li>
+        ))}
+      </ol>
+      {error && <ErrorPanel error={error} />}
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <button type="button" onClick={addScene} className={actionClassName}>
+          Add scene
+        </button>
+        <div className="flex flex-wrap items-center gap-3">
+          <button type="button" onClick={onDiscard} className={actionClassName}>
+            Discard
+          </button>
+          <button
+            type="button"
+            onClick={onApprove}
+            disabled={!canApprove || isSubmitting}
+            className="inline-flex items-center justify-center rounded-full bg-white px-6 py-2.5 text-sm font-semibold text-black transition hover:bg-white/90 disabled:cursor-not-allowed disabled:bg-white/50"
+          >
+            {isSubmitting ? "Queuing render" : "Approve and render"}
+          </button>
+        </div>
+      </div>
+    </section>
+  );
+}
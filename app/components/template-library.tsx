@@ -0,0 +1,309 @@
+import { useState } from "react";
+
+import type { BriefOptions } from "@/lib/brief";
+import { downloadText } from "@/lib/download";
+import {
+  type PromptTemplate,
+  briefForTemplate,
+  builtInTemplates,
+  exportTemplates,
+  fillTemplate,
+  initialValues,
+  parseTemplateImport,
+  templateVariables,
+} from "@/lib/templates";
+import { classNames } from "@/lib/ui";
+
+const fieldClassName =
+  "w-full rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none transition focus:border-white/30";
+
+const actionClassName =
+  "rounded-full border border-white/10 px-3 py-1 text-xs text-white/70 transition hover:border-white/30 hover:text-white disabled:cursor-not-allowed disabled:opacity-40";
+
+function labelFor(variable: string) {
+  return variable.replace(/[-_]+/g, " ").replace(/^\w/, (c) => c.toUpperCase());
+}
+
+/**
+ * Prompt templates with `{variable}` placeholders: pick one, fill in its
+ * variables, and the filled prompt and brief land in the form.
+ */
+export function TemplateLibrary({
+  prompt,
+  brief,
+  templates,
+  onApply,
+  onSave,
+  onDelete,
+  onImport,
+}: {
+  prompt: string;
+  brief: BriefOptions;
+  /** The user's own templates; built-in ones are always listed first. */
+  templates: PromptTemplate[];
+  onApply: (prompt: string, brief: BriefOptions) => void;
+  onSave: (template: PromptTemplate) => void;
+  onDelete: (id: string) => void;
+  onImport: (templates: PromptTemplate[]) => void;
+}) {
+  const [category, setCategory] = useState<string | null>(null);
+  const [selected, setSelected] = useState<PromptTemplate | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState<{ name: string; category: string }>();
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const all = [...builtInTemplates, ...templates];
+  const categories = Array.from(new Set(all.map((item) => item.category)));
+  const visible = category
+    ? all.filter((item) => item.category === category)
+    : all;
+  const variables = selected ? templateVariables(selected.text) : [];
+
+  const select = (template: PromptTemplate) => {
+    setNotice(null);
+    if (templateVariables(template.text).length === 0) {
+      setSelected(null);
+      onApply(template.text, briefForTemplate(template, {}, brief));
+      return;
+    }
+    setSelected(template);
+    setValues(initialValues(template, brief));
+  };
+
+  const apply = () => {
+    if (!selected) {
+      return;
+    }
+    onApply(
+      fillTemplate(selected.text, values),
+      briefForTemplate(selected, values, brief),
+    );
+    setSelected(null);
+  };
+
+  const save = () => {
+    if (!saving) {
+      return;
+    }
+    onSave({
+      id: crypto.randomUUID(),
+      name: saving.name.trim(),
+      category: saving.category.trim() || "My templates",
+      text: prompt.trim(),
+      defaults: {},
+      brief,
+    });
+    setSaving(undefined);
+    setNotice(
+      templateVariables(prompt).length > 0
+        ? "Template saved."
+        : "Template saved. Add {placeholders} to the prompt to make parts of it fill-in.",
+    );
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) {
+      return;
+    }
+    try {
+      const { templates: imported, skipped } = parseTemplateImport(
+        await file.text(),
+      );
+      onImport(imported);
+      setNotice(
+        `Imported ${imported.length} template${imported.length === 1 ? "" : "s"}${
+          skipped > 0 ? `, skipped ${skipped} without a name or text` : ""
+        }.`,
+      );
+    } catch (error) {
+      setNotice(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex flex-wrap items-center gap-2">
+        {[null, ...categories].map((option) => (
+          <button
+            key={option ?? "all"}
+            type="button"
+            onClick={() => setCategory(option)}
+            className={classNames(
+              actionClassName,
+              category === option && "border-white/40 text-white",
+            )}
+          >
+            {option ?? "All"}
+          </button>
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-3">
+        {visible.map((template) => (
+          <span key={template.id} className="group relative">
+            <button
+              type="button"
+              onClick={() => select(template)}
+              title={template.text}
+              className={classNames(
+                "rounded-full border border-white/10 bg-white/10 px-4 py-2 text-left text-xs text-white/80 transition hover:border-white/30 hover:bg-white/20",
+                selected?.id === template.id && "border-white/40",
+              )}
+            >
+              {template.name}
+            </button>
+            {!template.builtIn && (
+              <button
+                type="button"
+                onClick={() => onDelete(template.id)}
+                aria-label={`Delete template ${template.name}`}
+                className="absolute -right-1 -top-1 hidden h-4 w-4 rounded-full bg-black text-[10px] leading-4 text-white/70 hover:text-rose-200 group-hover:block"
+              >
+                ×
+              </button>
+            )}
+          </span>
+        ))}
+      </div>
+
+      {selected && (
+        <div className="grid gap-3 rounded-2xl border border-white/10 bg-black/20 p-4">
+          <div className="grid gap-3 sm:grid-cols-2">
+            {variables.map((variable) => (
+              <label
+                key={variable}
+                className="flex flex-col gap-1.5 text-xs text-white/50"
+              >
+                {labelFor(variable)}
+                <input
+                  value={values[variable] ?? ""}
+                  onChange={(event) => {
+                    const value = event.currentTarget.value;
+                    setValues((prev) => ({ ...prev, [variable]: value }));
+                  }}
+                  className={fieldClassName}
+                />
+              </label>
+            ))}
+          </div>
+          <p className="text-xs text-white/60">
+            {fillTemplate(selected.text, values)}
+          </p>
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setSelected(null)}
+              className={actionClassName}
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={apply}
+              disabled={variables.some((variable) => !values[variable]?.trim())}
+              className={classNames(
+                actionClassName,
+                "border-white/30 text-white",
+              )}
+            >
+              Use prompt
+            </button>
+          </div>
+        </div>
+      )}
+
+      {saving && (
+        <div className="grid gap-3 rounded-2xl border border-white/10 bg-black/20 p-4 sm:grid-cols-[1fr_1fr_auto] sm:items-end">
+          <label className="flex flex-col gap-1.5 text-xs text-white/50">
+            Template name
+            <input
+              value={saving.name}
+              onChange={(event) => {
+                const name = event.currentTarget.value;
+                setSaving((prev) => prev && { ...prev, name });
+              }}
+              className={fieldClassName}
+            />
+          </label>
+          <label className="flex flex-col gap-1.5 text-xs text-white/50">
+            Category
+            <input
+              value={saving.category}
+              list="template-categories"
+              onChange={(event) => {
+                const value = event.currentTarget.value;
+                setSaving((prev) => prev && { ...prev, category: value });
+              }}
+              className={fieldClassName}
+            />
+            <datalist id="template-categories">
+              {categories.map((option) => (
+                <option key={option} value={option} />
+              ))}
+            </datalist>
+          </label>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => setSaving(undefined)}
+              className={actionClassName}
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={save}
+              disabled={!saving.name.trim()}
+              className={classNames(
+                actionClassName,
+                "border-white/30 text-white",
+              )}
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 text-xs text-white/50">
+        <button
+          type="button"
+          onClick={() => {
+            setNotice(null);
+            setSaving({ name: "", category: category ?? "" });
+          }}
+          disabled={!prompt.trim() || !!saving}
+          className={actionClassName}
+        >
+          Save as template
+        </button>
+        <label className={classNames(actionClassName, "cursor-pointer")}>
+          Import
+          <input
+            type="file"
+            accept=".json,application/json"
+            className="sr-only"
+            onChange={(event) => {
+              void handleImport(event.currentTarget.files?.[0]);
+              event.currentTarget.value = "";
+            }}
+          />
+        </label>
+        <button
+          type="button"
+          onClick={() =>
+            downloadText(
+              "clipo-templates.json",
+              exportTemplates(templates),
+              "application/json",
+            )
+          }
+          disabled={templates.length === 0}
+          className={actionClassName}
+        >
+          Export
+        </button>
+        {notice && <span>{notice}</span>}
+      </div>
+    </div>
+  );
+}
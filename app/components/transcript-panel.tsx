@@ -0,0 +1,98 @@
+import { useMemo } from "react";
+
+import { sceneTimings } from "@/lib/captions";
+import type { GeneratedVideo } from "@/lib/types";
+import { classNames } from "@/lib/ui";
+
+function formatOffset(seconds: number) {
+  const whole = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, "0")}`;
+}
+
+/**
+ * The script of a render, scene by scene. The scene under `currentTime` is
+ * highlighted, and clicking a scene seeks to its start.
+ */
+export function TranscriptPanel({
+  video,
+  currentTime,
+  onSeek,
+  audioRef,
+  onAudioTime,
+}: {
+  video: GeneratedVideo;
+  currentTime: number;
+  onSeek: (seconds: number) => void;
+  audioRef: React.RefObject<HTMLAudioElement | null>;
+  /** Reports narration playback so the transcript can follow it. */
+  onAudioTime: (seconds: number | null) => void;
+}) {
+  const timings = useMemo(
+    () => sceneTimings(video.scenes ?? [], video.duration),
+    [video.scenes, video.duration],
+  );
+  const active = timings.findIndex(
+    ({ start, end }) => currentTime >= start && currentTime < end,
+  );
+
+  return (
+    <div className="grid gap-4 border-t border-white/10 px-6 py-5 text-sm text-white/70">
+      {video.audioUrl && (
+        <div className="flex flex-col gap-2">
+          <span className="text-xs uppercase tracking-[0.2em] text-white/40">
+            Narration
+          </span>
+          <audio
+            ref={audioRef}
+            src={video.audioUrl}
+            controls
+            preload="none"
+            onPlay={(event) => onAudioTime(event.currentTarget.currentTime)}
+            onTimeUpdate={(event) =>
+              !event.currentTarget.paused &&
+              onAudioTime(event.currentTarget.currentTime)
+            }
+            onPause={() => onAudioTime(null)}
+            onEnded={() => onAudioTime(null)}
+            className="h-9 w-full"
+          />
+        </div>
+      )}
+      {timings.length > 0 ? (
+        <ol className="grid gap-2">
+          {timings.map(({ scene, start, end }, index) => (
+            <li key={scene.sceneNumber}>
+              <button
+                type="button"
+                onClick={() => onSeek(start)}
+                aria-current={index === active ? "true" : undefined}
+                className={classNames(
+                  "grid w-full gap-1 rounded-2xl border border-white/10 bg-black/30 px-4 py-3 text-left transition hover:border-white/30",
+                  index === active && "border-sky-300/50 bg-sky-300/10",
+                )}
+              >
+                <span className="flex items-center justify-between gap-3 text-xs text-white/50">
+                  <span className="font-semibold text-white/80">
+                    Scene {scene.sceneNumber}
+                  </span>
+                  <span>
+                    {formatOffset(start)}–{formatOffset(end)} ·{" "}
+                    {Math.round(end - start)}s
+                  </span>
+                </span>
+                <span className="text-white/80">{scene.narration}</span>
+                {scene.visualDescription && (
+                  <span className="text-xs text-white/50">
+                    {scene.visualDescription}
+                  </span>
+                )}
+              </button>
+            </li>
+          ))}
+        </ol>
+      ) : (
+        video.narration && <p className="text-white/80">{video.narration}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import type { QuotaScope, QuotaWindow, UsageMeter } from "@/lib/types";
+import { classNames } from "@/lib/ui";
+
+const scopeLabels: Record<QuotaScope, string> = {
+  user: "You",
+  workspace: "Workspace",
+  app: "Everyone",
+};
+
+const windowLabels: Record<QuotaWindow, string> = {
+  hour: "this hour",
+  day: "today",
+  concurrent: "at once",
+};
+
+function formatReset(resetAt: number) {
+  return new Date(resetAt).toLocaleTimeString(undefined, {
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+/** Remaining generation quota per limit, with when the next render frees up. */
+export function UsageMeters({ meters }: { meters: UsageMeter[] }) {
+  if (meters.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul aria-label="Generation quota" className="grid gap-2 text-xs">
+      {meters.map((meter) => {
+        const exhausted = meter.remaining === 0;
+
+        return (
+          <li
+            key={`${meter.scope}-${meter.window}`}
+            className="grid grid-cols-[7rem_1fr_auto] items-center gap-3"
+          >
+            <span className="text-white/60">
+              {scopeLabels[meter.scope]} · {windowLabels[meter.window]}
+            </span>
+            <span className="h-1.5 overflow-hidden rounded-full bg-white/10">
+              <span
+                className={classNames(
+                  "block h-full rounded-full",
+                  exhausted ? "bg-amber-400" : "bg-emerald-400/80",
+                )}
+                style={{ width: `${(meter.remaining / meter.limit) * 100}%` }}
+              />
+            </span>
+            <span
+              className={classNames(
+                "text-right",
+                exhausted ? "text-amber-200" : "text-white/60",
+              )}
+            >
+              {meter.remaining} of {meter.limit} left
+              {meter.resetAt && meter.used > 0 && (
+                <span
+                  title="When the oldest render in this window stops counting"
+                  className="text-white/40"
+                >
+                  {" "}
+                  · resets {formatReset(meter.resetAt)}
+                </span>
+              )}
+            </span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
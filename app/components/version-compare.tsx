@@ -0,0 +1,302 @@
+import { useMemo, useRef, useState } from "react";
+
+import { playerAspectRatio } from "@/lib/gallery";
+import type { GeneratedVideo } from "@/lib/types";
+import { classNames, formatDate } from "@/lib/ui";
+import { type DiffToken, diffScenes, diffWords } from "@/lib/versions";
+
+const actionClassName =
+  "rounded-full border border-white/10 px-3 py-1 text-xs text-white/70 transition hover:border-white/30 hover:text-white";
+
+const tokenClassNames: Record<DiffToken["op"], string> = {
+  same: "text-white/80",
+  added: "rounded bg-emerald-400/20 px-0.5 text-emerald-100",
+  removed: "rounded bg-rose-400/20 px-0.5 text-rose-200 line-through",
+};
+
+const statusLabels = {
+  same: "Unchanged",
+  changed: "Changed",
+  added: "Added",
+  removed: "Removed",
+};
+
+// Players further apart than this are pulled back together.
+const DRIFT_SECONDS = 0.3;
+
+function formatOffset(seconds: number) {
+  const whole = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, "0")}`;
+}
+
+function DiffText({ tokens }: { tokens: DiffToken[] }) {
+  return (
+    <p className="leading-relaxed">
+      {tokens.map((token, index) => (
+        <span key={index}>
+          {index > 0 && " "}
+          <span className={tokenClassNames[token.op]}>{token.text}</span>
+        </span>
+      ))}
+    </p>
+  );
+}
+
+/**
+ * Two versions of a render side by side: one transport drives both players,
+ * and the scene scripts are diffed below (older on the left).
+ */
+export function VersionCompare({
+  videos,
+  onClose,
+}: {
+  videos: [GeneratedVideo, GeneratedVideo];
+  onClose: () => void;
+}) {
+  const [before, after] = [...videos].sort((x, y) => x.createdAt - y.createdAt);
+  const beforeRef = useRef<HTMLVideoElement>(null);
+  const afterRef = useRef<HTMLVideoElement>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [time, setTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [soundFrom, setSoundFrom] = useState<"before" | "after">("after");
+
+  const scenes = useMemo(
+    () => diffScenes(before.scenes ?? [], after.scenes ?? []),
+    [before.scenes, after.scenes],
+  );
+  const promptDiff = useMemo(
+    () =>
+      before.prompt === after.prompt
+        ? null
+        : diffWords(before.prompt, after.prompt),
+    [before.prompt, after.prompt],
+  );
+  const narrationDiff = useMemo(
+    () =>
+      scenes.length === 0 && (before.narration || after.narration)
+        ? diffWords(before.narration ?? "", after.narration ?? "")
+        : null,
+    [scenes.length, before.narration, after.narration],
+  );
+
+  const players = () =>
+    [beforeRef.current, afterRef.current].filter(
+      (media): media is HTMLVideoElement => media !== null,
+    );
+
+  const handleMetadata = () => {
+    setDuration(
+      Math.max(
+        0,
+        ...players().map((media) =>
+          Number.isFinite(media.duration) ? media.duration : 0,
+        ),
+      ),
+    );
+  };
+
+  const handleTimeUpdate = () => {
+    const media = players();
+    const current = Math.max(...media.map((player) => player.currentTime));
+    setTime(current);
+    media.forEach((player) => {
+      if (
+        !player.paused &&
+        current < player.duration &&
+        Math.abs(player.currentTime - current) > DRIFT_SECONDS
+      ) {
+        player.currentTime = current;
+      }
+    });
+  };
+
+  const handleEnded = () => {
+    if (players().every((player) => player.ended || player.paused)) {
+      setIsPlaying(false);
+    }
+  };
+
+  const togglePlayback = () => {
+    const media = players();
+    if (isPlaying) {
+      media.forEach((player) => player.pause());
+      setIsPlaying(false);
+      return;
+    }
+    if (media.every((player) => player.ended)) {
+      media.forEach((player) => {
+        player.currentTime = 0;
+      });
+    }
+    media.forEach((player) => {
+      if (player.currentTime < player.duration || !player.duration) {
+        void player.play().catch(() => undefined);
+      }
+    });
+    setIsPlaying(true);
+  };
+
+  const seek = (seconds: number) => {
+    players().forEach((player) => {
+      player.currentTime = Math.min(seconds, player.duration || seconds);
+      if (isPlaying && seconds < player.duration) {
+        void player.play().catch(() => undefined);
+      }
+    });
+    setTime(seconds);
+  };
+
+  const renderPlayer = (
+    video: GeneratedVideo,
+    ref: React.RefObject<HTMLVideoElement | null>,
+    side: "before" | "after",
+  ) => (
+    <figure className="flex flex-col gap-3">
+      <video
+        ref={ref}
+        src={video.url}
+        poster={video.thumbnailUrl}
+        playsInline
+        muted={soundFrom !== side}
+        onLoadedMetadata={handleMetadata}
+        onTimeUpdate={handleTimeUpdate}
+        onEnded={handleEnded}
+        style={{ aspectRatio: playerAspectRatio(video) }}
+        className="max-h-[70vh] w-full rounded-2xl bg-black object-contain"
+      />
+      <figcaption className="flex items-center justify-between gap-3 text-xs text-white/60">
+        <span className="truncate font-medium text-white/80">
+          {video.title ?? video.prompt}
+        </span>
+        <span className="shrink-0">{formatDate(video.createdAt)}</span>
+      </figcaption>
+    </figure>
+  );
+
+  return (
+    <section
+      aria-label="Compare versions"
+      className="grid gap-6 rounded-3xl border border-white/10 bg-white/5 p-8 backdrop-blur-lg"
+    >
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-semibold text-white">Compare versions</h2>
+          <p className="text-sm text-white/60">
+            Both players share one transport. Changes read from left to right.
+          </p>
+        </div>
+        <button type="button" onClick={onClose} className={actionClassName}>
+          Close
+        </button>
+      </div>
+
+      <div className="grid gap-6 sm:grid-cols-2">
+        {renderPlayer(before, beforeRef, "before")}
+        {renderPlayer(after, afterRef, "after")}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 text-xs text-white/60">
+        <button
+          type="button"
+          onClick={togglePlayback}
+          className={classNames(actionClassName, "border-white/30 text-white")}
+        >
+          {isPlaying ? "Pause both" : "Play both"}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={duration || 0}
+          step={0.1}
+          value={Math.min(time, duration)}
+          onChange={(event) => seek(Number(event.currentTarget.value))}
+          aria-label="Seek both videos"
+          className="min-w-40 flex-1 accent-white"
+        />
+        <span>
+          {formatOffset(time)} / {formatOffset(duration)}
+        </span>
+        <label className="flex items-center gap-2">
+          Sound from
+          <select
+            value={soundFrom}
+            onChange={(event) =>
+              setSoundFrom(event.currentTarget.value as "before" | "after")
+            }
+            className="rounded-full border border-white/10 bg-black/30 px-3 py-1 text-xs text-white outline-none focus:border-white/30"
+          >
+            <option value="before">Left</option>
+            <option value="after">Right</option>
+          </select>
+        </label>
+      </div>
+
+      <div className="grid gap-3 text-sm text-white/70">
+        {promptDiff && (
+          <div className="rounded-2xl border border-white/10 bg-black/30 px-4 py-3">
+            <span className="text-xs uppercase tracking-[0.2em] text-white/40">
+              Prompt
+            </span>
+            <DiffText tokens={promptDiff} />
+          </div>
+        )}
+        {narrationDiff && (
+          <div className="rounded-2xl border border-white/10 bg-black/30 px-4 py-3">
+            <span className="text-xs uppercase tracking-[0.2em] text-white/40">
+              Narration
+            </span>
+            <DiffText tokens={narrationDiff} />
+          </div>
+        )}
+        {scenes.length > 0 && (
+          <ol className="grid gap-2">
+            {scenes.map((scene) => (
+              <li
+                key={scene.sceneNumber}
+                className={classNames(
+                  "grid gap-2 rounded-2xl border border-white/10 bg-black/30 px-4 py-3",
+                  scene.status === "same" && "opacity-60",
+                )}
+              >
+                <span className="flex items-center justify-between gap-3 text-xs text-white/50">
+                  <span className="font-semibold text-white/80">
+                    Scene {scene.sceneNumber}
+                  </span>
+                  <span>
+                    {scene.durationChanged
+                      ? `${scene.before?.duration}s → ${scene.after?.duration}s · `
+                      : ""}
+                    {statusLabels[scene.status]}
+                  </span>
+                </span>
+                <DiffText tokens={scene.narration} />
+                {scene.visualChanged ? (
+                  <span className="grid gap-1 text-xs">
+                    <span className={tokenClassNames.removed}>
+                      {scene.before?.visualDescription}
+                    </span>
+                    <span className={tokenClassNames.added}>
+                      {scene.after?.visualDescription}
+                    </span>
+                  </span>
+                ) : (
+                  (scene.after ?? scene.before)?.visualDescription && (
+                    <span className="text-xs text-white/50">
+                      {(scene.after ?? scene.before)?.visualDescription}
+                    </span>
+                  )
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+        {scenes.length === 0 && !narrationDiff && (
+          <p className="text-white/50">
+            Neither render has a scene script to compare.
+          </p>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -2,34 +2,85 @@
 
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 
-type GenerationStage = "idle" | "loading" | "success" | "error";
-
-type Scene = {
-  sceneNumber: number;
-  duration: number;
-  narration: string;
-  keywords: string[];
-  visualDescription: string;
-};
+import { AccountPanel } from "@/app/components/account-panel";
+import { BrandKitEditor } from "@/app/components/brand-kit-editor";
+import { BriefControls } from "@/app/components/brief-controls";
+import { CampaignGroup } from "@/app/components/campaign-group";
+import { CampaignPanel } from "@/app/components/campaign-panel";
+import { ErrorPanel } from "@/app/components/error-panel";
+import { GalleryFilterBar } from "@/app/components/gallery-filter-bar";
+import { RenderCard } from "@/app/components/render-card";
+import { StoryboardEditor } from "@/app/components/storyboard-editor";
+import { TemplateLibrary } from "@/app/components/template-library";
+import { UsageMeters } from "@/app/components/usage-meters";
+import { VersionCompare } from "@/app/components/version-compare";
+import {
+  cancelJob,
+  fetchCampaign,
+  fetchJob,
+  fetchSession,
+  fetchUsage,
+  requestScript,
+  retryJob,
+  submitCampaign,
+  submitJob,
+  toErrorInfo,
+} from "@/lib/api-client";
+import type { BrandKit } from "@/lib/brand";
+import {
+  loadBrandKits,
+  loadSelectedKitId,
+  saveBrandKits,
+  saveSelectedKitId,
+} from "@/lib/brand-store";
+import { type BriefOptions, defaultBrief } from "@/lib/brief";
+import {
+  demoSpeedOptions,
+  demoTimeline,
+  fixtureStoryboard,
+  fixtureVideo,
+  matchFixture,
+} from "@/lib/demo";
+import { type GenerateErrorInfo, errorCatalog } from "@/lib/errors";
+import {
+  type GalleryFilters,
+  defaultGalleryFilters,
+  filterGallery,
+} from "@/lib/gallery";
+import { createHistoryStore, sortHistory } from "@/lib/history";
+import { loadTemplates, saveTemplates } from "@/lib/template-store";
+import { type PromptTemplate, templateVariables } from "@/lib/templates";
+import type {
+  CampaignRef,
+  CampaignResponse,
+  CampaignRow,
+  ClipSelection,
+  GeneratedVideo,
+  GenerationJob,
+  JobAttempt,
+  JobEvent,
+  JobStage,
+  SessionResponse,
+  Storyboard,
+  UsageMeter,
+} from "@/lib/types";
+import { classNames } from "@/lib/ui";
+import { versionNumber } from "@/lib/versions";
 
-type GeneratedVideo = {
-  id: string;
-  prompt: string;
-  url: string;
-  createdAt: number;
-  thumbnailUrl?: string;
-  narration?: string;
-  audioUrl?: string;
-  scenes?: Scene[];
+type JobCard = GenerationJob & {
   simulated?: boolean;
+  message?: string;
 };
 
-const promptIdeas = [
-  "A 20-second trailer for a sci-fi film about time-traveling botanists",
-  "Create a Short video on how to type fast",
-  "A hyper-realistic recap of today's tech news told by an AI anchor",
-  "A vertical video showcasing a dream vacation to Kyoto in a cinematic tone",
-];
+type StoryboardDraft = {
+  topic: string;
+  brief: BriefOptions;
+  storyboard: Storyboard;
+  brand?: BrandKit;
+  timeoutSeconds?: number;
+  parentId?: string;
+  demo?: boolean;
+};
 
 const timeline = [
   {
@@ -46,6 +97,12 @@ const timeline = [
   },
 ];
 
+const timelineIndexByStage: Record<JobStage, number> = {
+  received: 0,
+  rendering: 1,
+  delivered: 2,
+};
+
 const features = [
   {
     title: "Crafted for storytelling",
@@ -64,92 +121,325 @@ const features = [
   },
 ];
 
-const SIMULATED_PROMPT = "Create a Short video on how to type fast";
-const SIMULATION_DURATION_MS = 36000;
-const SIMULATED_VIDEO_URL = encodeURI(
-  "/This is how I type faster while having fun..mp4",
-);
-const RATE_LIMIT_ERROR =
-  "CREATOMATE::HTTP429::RATE_LIMIT_EXHAUSTED::payload=octet-stream::x-ratelimit-reset-required";
-
-function formatDate(timestamp: number) {
-  const date = new Date(timestamp);
-  return date.toLocaleTimeString([], {
+const POLL_INTERVAL_MS = 2000;
+
+const timeoutOptions = [
+  { label: "Server default", value: undefined },
+  { label: "2 minutes", value: 120 },
+  { label: "5 minutes", value: 300 },
+  { label: "10 minutes", value: 600 },
+];
+
+const triggerLabels: Record<JobAttempt["trigger"], string> = {
+  initial: "First try",
+  automatic: "Automatic retry",
+  manual: "Manual retry",
+};
+
+function persist(action: Promise<void>) {
+  action.catch((error) => console.error(error));
+}
+
+function isJobActive(job: GenerationJob) {
+  return job.status === "queued" || job.status === "running";
+}
+
+function isCampaignActive({ progress }: CampaignResponse) {
+  return progress.queued + progress.running > 0;
+}
+
+type GalleryItem =
+  | { kind: "video"; video: GeneratedVideo }
+  | { kind: "campaign"; campaign: CampaignRef; videos: GeneratedVideo[] };
+
+/** Groups campaign renders together, placed where their newest render sorts. */
+function toGalleryItems(videos: GeneratedVideo[]) {
+  const items: GalleryItem[] = [];
+  const groups = new Map<string, GeneratedVideo[]>();
+
+  videos.forEach((video) => {
+    if (!video.campaign) {
+      items.push({ kind: "video", video });
+      return;
+    }
+
+    const group = groups.get(video.campaign.id);
+    if (group) {
+      group.push(video);
+      return;
+    }
+
+    const created = [video];
+    groups.set(video.campaign.id, created);
+    items.push({ kind: "campaign", campaign: video.campaign, videos: created });
+  });
+
+  return items;
+}
+
+function isAbortError(error: unknown) {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+function formatClock(at: number) {
+  return new Date(at).toLocaleTimeString([], {
     hour: "2-digit",
     minute: "2-digit",
+    second: "2-digit",
   });
 }
 
-function classNames(
-  ...classes: Array<string | false | null | undefined>
-): string {
-  return classes.filter(Boolean).join(" ");
+function describeAttempt(attempt: JobAttempt) {
+  const failure = attempt.error
+    ? errorCatalog[attempt.error.code].title
+    : "Failed";
+
+  switch (attempt.outcome) {
+    case undefined:
+      return "In progress";
+    case "succeeded":
+      return "Delivered";
+    case "cancelled":
+      return "Cancelled";
+    case "failed":
+      return attempt.retryAt
+        ? `${failure} · retrying at ${formatClock(attempt.retryAt)}`
+        : failure;
+  }
+}
+
+function settleAttempt(
+  attempts: JobAttempt[],
+  outcome: NonNullable<JobAttempt["outcome"]>,
+) {
+  return attempts.map((attempt, index) =>
+    index === attempts.length - 1 && !attempt.outcome
+      ? { ...attempt, outcome, finishedAt: Date.now() }
+      : attempt,
+  );
 }
 
-function isProbablyUrl(value: string) {
-  try {
-    const url = new URL(value);
-    return url.protocol === "http:" || url.protocol === "https:";
-  } catch (error) {
-    return false;
+function describeJob(job: JobCard | undefined) {
+  if (!job) {
+    return "Waiting for your brief";
+  }
+
+  switch (job.status) {
+    case "queued":
+      return job.attempts.length > 0 ? "Waiting to retry" : "Queued";
+    case "running":
+      return job.simulated ? "Simulating" : "Rendering in progress";
+    case "succeeded":
+      return "Ready to share";
+    case "failed":
+      return "Something needs attention";
+    case "cancelled":
+      return "Cancelled";
   }
 }
 
-function SimulatedLoader({
-  progress,
-  message,
+function describeEvent(event: JobEvent) {
+  switch (event.type) {
+    case "script_parsed":
+      return "Script written and split into scenes";
+    case "voiceover_ready":
+      return "Voiceover recorded";
+    case "clip_fetched":
+      return event.sceneNumber && event.totalScenes
+        ? `Footage found for scene ${event.sceneNumber} of ${event.totalScenes}`
+        : "Footage found for a scene";
+    case "render_submitted":
+      return "Render submitted to the video engine";
+    case "render_succeeded":
+      return "Render finished";
+    case "render_failed":
+      return event.message || "Render failed";
+  }
+}
+
+const cardButtonClassName =
+  "shrink-0 rounded-full border border-white/10 px-3 py-1 text-xs text-white/70 transition hover:border-white/30 hover:text-white";
+
+function JobStatusCard({
+  job,
+  onDismiss,
+  onCancel,
+  onRetry,
 }: {
-  progress: number;
-  message: string | null;
+  job: JobCard;
+  onDismiss: (jobId: string) => void;
+  onCancel: (job: JobCard) => void;
+  onRetry: (job: JobCard) => void;
 }) {
-  const totalSeconds = SIMULATION_DURATION_MS / 1000;
-  const remainingSeconds = Math.max(
-    0,
-    Math.ceil(totalSeconds - (progress / 100) * totalSeconds),
-  );
+  const progress = Math.min(100, Math.max(job.progress, 0));
+  const latestEvent = job.events[job.events.length - 1];
+  const canRetry = job.status === "failed" || job.status === "cancelled";
 
   return (
-    <div className="flex flex-col gap-4 rounded-2xl border border-white/10 bg-black/40 p-6 text-sm text-white/70">
-      <div className="flex items-center justify-between text-white">
-        <span className="text-base font-medium">Rendering preview</span>
-        <span className="text-xs uppercase tracking-[0.2em] text-white/50">
-          {Math.min(100, Math.max(progress, 0))}%
+    <li
+      className={classNames(
+        "flex flex-col gap-4 rounded-2xl border border-white/10 bg-black/40 p-6 text-sm text-white/70",
+        job.status === "succeeded" && "border-emerald-300/40",
+        job.status === "failed" && "border-rose-300/40",
+        job.status === "cancelled" && "border-white/5 opacity-80",
+      )}
+    >
+      <div className="flex items-start justify-between gap-4 text-white">
+        <span className="text-base font-medium">{job.topic}</span>
+        <span className="flex shrink-0 items-center gap-2 text-xs uppercase tracking-[0.2em] text-white/50">
+          {job.simulated && (
+            <span className="rounded-full border border-amber-300/40 px-2 py-0.5 text-[10px] text-amber-200">
+              Simulated
+            </span>
+          )}
+          {describeJob(job)}
         </span>
       </div>
-      <div className="h-2 w-full overflow-hidden rounded-full bg-white/10">
-        <div
-          className="h-full bg-gradient-to-r from-sky-400 via-indigo-400 to-purple-400 transition-all duration-500"
-          style={{ width: `${Math.min(100, Math.max(progress, 0))}%` }}
-        />
-      </div>
-      <div className="flex items-center justify-between">
+      {job.message && <p className="text-xs text-white/50">{job.message}</p>}
+      {isJobActive(job) && (
+        <div className="h-2 w-full overflow-hidden rounded-full bg-white/10">
+          <div
+            className="h-full bg-gradient-to-r from-sky-400 via-indigo-400 to-purple-400 transition-all duration-500"
+            style={{ width: `${progress}%` }}
+          />
+        </div>
+      )}
+      {(job.status === "failed" || job.status === "queued") && job.error && (
+        <ErrorPanel error={job.error} />
+      )}
+      {job.issues && job.issues.length > 0 && (
+        <details className="rounded-xl border border-amber-300/30 bg-amber-300/5 px-3 py-2 text-xs text-amber-100/80">
+          <summary className="cursor-pointer select-none">
+            {job.issues.length === 1
+              ? "1 response field was ignored"
+              : `${job.issues.length} response fields were ignored`}
+          </summary>
+          <ul className="mt-2 grid gap-1 font-mono text-[11px] text-white/60">
+            {job.issues.map((issue, index) => (
+              <li key={`${issue.path}-${index}`}>
+                {issue.path}: {issue.message}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+      {job.attempts.length > 1 && (
+        <details className="rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-xs text-white/60">
+          <summary className="cursor-pointer select-none">
+            {job.attempts.length} attempts
+          </summary>
+          <ol className="mt-2 grid gap-1">
+            {job.attempts.map((attempt) => (
+              <li
+                key={attempt.number}
+                className="flex flex-wrap justify-between gap-2"
+              >
+                <span>
+                  #{attempt.number} · {triggerLabels[attempt.trigger]} ·{" "}
+                  {formatClock(attempt.startedAt)}
+                </span>
+                <span
+                  className={classNames(
+                    attempt.outcome === "succeeded" && "text-emerald-200",
+                    attempt.outcome === "failed" && "text-rose-200",
+                  )}
+                >
+                  {describeAttempt(attempt)}
+                </span>
+              </li>
+            ))}
+          </ol>
+        </details>
+      )}
+      <div className="flex items-center justify-between gap-4">
         <span>
-          {message ?? "Preparing a sample clip while services warm up."}
+          {job.status === "failed" || job.status === "cancelled"
+            ? latestEvent
+              ? `Last milestone: ${describeEvent(latestEvent)}`
+              : "Stopped before the first milestone"
+            : latestEvent
+              ? describeEvent(latestEvent)
+              : timeline[timelineIndexByStage[job.stage]].caption}
         </span>
-        <span className="text-xs text-white/50">~{remainingSeconds}s left</span>
+        {isJobActive(job) ? (
+          <span className="flex shrink-0 items-center gap-3">
+            <span className="text-xs text-white/50">{progress}%</span>
+            <button
+              type="button"
+              onClick={() => onCancel(job)}
+              className={cardButtonClassName}
+            >
+              Cancel
+            </button>
+          </span>
+        ) : (
+          <span className="flex shrink-0 items-center gap-2">
+            {canRetry && (
+              <button
+                type="button"
+                onClick={() => onRetry(job)}
+                className={cardButtonClassName}
+              >
+                Retry
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => onDismiss(job.id)}
+              className={cardButtonClassName}
+            >
+              Dismiss
+            </button>
+          </span>
+        )}
       </div>
-    </div>
+    </li>
   );
 }
 
 export default function Home() {
   const [prompt, setPrompt] = useState("");
-  const [stage, setStage] = useState<GenerationStage>("idle");
-  const [activeTimelineIndex, setActiveTimelineIndex] = useState(0);
-  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  // Placeholders the applied template left unfilled. Hand-typed `{braces}`
+  // aren't template variables, so only these block generating.
+  const [pendingVariables, setPendingVariables] = useState<string[]>([]);
+  const [brief, setBrief] = useState<BriefOptions>(defaultBrief);
+  const [reviewFirst, setReviewFirst] = useState(false);
+  const [demoMode, setDemoMode] = useState(false);
+  const [demoSpeed, setDemoSpeed] = useState(1);
+  const [timeoutSeconds, setTimeoutSeconds] = useState<number | undefined>();
+  const [brandKits, setBrandKits] = useState<BrandKit[]>([]);
+  const [brandKitId, setBrandKitId] = useState<string | undefined>();
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [session, setSession] = useState<SessionResponse | null>(null);
+  const [usage, setUsage] = useState<UsageMeter[]>([]);
+  const [remixOf, setRemixOf] = useState<GeneratedVideo | null>(null);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [draft, setDraft] = useState<StoryboardDraft | null>(null);
+  const [draftError, setDraftError] = useState<GenerateErrorInfo | null>(null);
+  const [jobs, setJobs] = useState<JobCard[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [formError, setFormError] = useState<GenerateErrorInfo | null>(null);
   const [videos, setVideos] = useState<GeneratedVideo[]>([]);
-  const simulationTimers = useRef<number[]>([]);
-  const [isSimulatedRun, setIsSimulatedRun] = useState(false);
-  const [simulationMessage, setSimulationMessage] = useState<string | null>(
-    null,
+  const [campaignRuns, setCampaignRuns] = useState<CampaignResponse[]>([]);
+  const [galleryFilters, setGalleryFilters] = useState<GalleryFilters>(
+    defaultGalleryFilters,
   );
-  const [simulationProgress, setSimulationProgress] = useState(0);
+  const simulationTimers = useRef(new Map<string, number[]>());
+  const submitController = useRef<AbortController | null>(null);
+  // Jobs whose render already reached the gallery. Polls keep reporting
+  // finished jobs, and re-adding them would bring back deleted renders and
+  // overwrite pins with the server's copy.
+  const deliveredJobIds = useRef(new Set<string>());
+  const historyStore = useMemo(() => createHistoryStore(), []);
 
-  const webhookUrl = useMemo(() => process.env.NEXT_PUBLIC_make_WEBHOOK_URL, []);
-
-  const cleanupTimers = useCallback(() => {
-    simulationTimers.current.forEach((timerId) => window.clearTimeout(timerId));
-    simulationTimers.current = [];
+  const cleanupTimers = useCallback((jobId?: string) => {
+    simulationTimers.current.forEach((timers, id) => {
+      if (jobId && id !== jobId) {
+        return;
+      }
+      timers.forEach((timerId) => window.clearTimeout(timerId));
+      simulationTimers.current.delete(id);
+    });
   }, []);
 
   useEffect(() => {
@@ -159,162 +449,425 @@ export default function Home() {
   }, [cleanupTimers]);
 
   useEffect(() => {
-    if (stage === "loading") {
-      setActiveTimelineIndex(0);
-      const timer = window.setTimeout(() => {
-        setActiveTimelineIndex(1);
-      }, 1000);
+    const kits = loadBrandKits();
+    const selectedId = loadSelectedKitId();
+    setBrandKits(kits);
+    setBrandKitId(
+      kits.some((kit) => kit.id === selectedId) ? selectedId : undefined,
+    );
+  }, []);
+
+  const brand = brandKits.find((kit) => kit.id === brandKitId);
+
+  useEffect(() => {
+    setTemplates(loadTemplates());
+  }, []);
 
-      return () => window.clearTimeout(timer);
-    }
+  const changeTemplates = useCallback(
+    (change: (prev: PromptTemplate[]) => PromptTemplate[]) => {
+      setTemplates((prev) => {
+        const next = change(prev);
+        saveTemplates(next);
+        return next;
+      });
+    },
+    [],
+  );
 
-    if (stage === "idle") {
-      setActiveTimelineIndex(0);
-    }
-  }, [stage]);
+  const handleSaveTemplate = useCallback(
+    (template: PromptTemplate) =>
+      changeTemplates((prev) => [...prev, template]),
+    [changeTemplates],
+  );
 
-  const callWebhook = useCallback(
-    async (payload: { topic: string }) => {
-      if (!webhookUrl) {
-        throw new Error(
-          "Missing NEXT_PUBLIC_make_WEBHOOK_URL. Add it to your .env.local file to continue.",
-        );
-      }
+  const handleDeleteTemplate = useCallback(
+    (id: string) =>
+      changeTemplates((prev) => prev.filter((template) => template.id !== id)),
+    [changeTemplates],
+  );
 
-      const response = await fetch(webhookUrl, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(payload),
+  const handleImportTemplates = useCallback(
+    (imported: PromptTemplate[]) =>
+      changeTemplates((prev) => [...prev, ...imported]),
+    [changeTemplates],
+  );
+
+  const handleSelectBrandKit = useCallback((id: string | undefined) => {
+    setBrandKitId(id);
+    saveSelectedKitId(id);
+  }, []);
+
+  const handleSaveBrandKit = useCallback(
+    (kit: BrandKit) => {
+      setBrandKits((prev) => {
+        const next = prev.some((existing) => existing.id === kit.id)
+          ? prev.map((existing) => (existing.id === kit.id ? kit : existing))
+          : [...prev, kit];
+        saveBrandKits(next);
+        return next;
       });
+      handleSelectBrandKit(kit.id);
+    },
+    [handleSelectBrandKit],
+  );
 
-      if (!response.ok) {
-        const text = await response.text();
-        throw new Error(text || "Webhook responded with an error status.");
+  const handleDeleteBrandKit = useCallback(
+    (id: string) => {
+      setBrandKits((prev) => {
+        const next = prev.filter((kit) => kit.id !== id);
+        saveBrandKits(next);
+        return next;
+      });
+      if (brandKitId === id) {
+        handleSelectBrandKit(undefined);
       }
+    },
+    [brandKitId, handleSelectBrandKit],
+  );
 
-      const contentType = response.headers.get("content-type") || "";
+  const updateJob = useCallback((id: string, patch: Partial<JobCard>) => {
+    setJobs((prev) =>
+      prev.map((job) => (job.id === id ? { ...job, ...patch } : job)),
+    );
+  }, []);
 
-      if (contentType.includes("application/json")) {
-        try {
-          return await response.json();
-        } catch (error) {
-          throw new Error(
-            "The webhook responded with JSON that could not be parsed.",
-          );
-        }
-      }
+  useEffect(() => {
+    fetchSession()
+      .then(setSession)
+      .catch((error) => console.error(error));
+  }, []);
 
-      const raw = (await response.text()).trim();
+  const workspaceId = session?.workspaceId;
 
-      if (!raw) {
-        throw new Error(
-          "The webhook returned an empty response. Check your makeworkflow output.",
-        );
-      }
+  // The server store lists the active workspace's renders, so reload it
+  // whenever that changes.
+  useEffect(() => {
+    let cancelled = false;
 
-      try {
-        return JSON.parse(raw);
-      } catch (error) {
-        if (isProbablyUrl(raw)) {
-          return { videoUrl: raw };
+    historyStore
+      .list()
+      .then((stored) => {
+        if (cancelled) {
+          return;
         }
-
-        throw new Error(
-          "CREATOMATE::HTTP429::RATE_LIMIT_EXHAUSTED::payload=octet-stream::x-ratelimit-reset-required",
+        setVideos((prev) =>
+          sortHistory([
+            ...prev,
+            ...stored.filter(
+              (video) => !prev.some((existing) => existing.id === video.id),
+            ),
+          ]),
         );
+      })
+      .catch((error) => console.error(error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [historyStore, workspaceId]);
+
+  const addVideo = useCallback(
+    (video: GeneratedVideo) => {
+      setVideos((prev) =>
+        prev.some((existing) => existing.id === video.id)
+          ? prev
+          : sortHistory([video, ...prev]),
+      );
+      persist(historyStore.put(video));
+    },
+    [historyStore],
+  );
+
+  const deliverJob = useCallback(
+    (job: GenerationJob) => {
+      if (
+        job.status === "succeeded" &&
+        job.video &&
+        !deliveredJobIds.current.has(job.id)
+      ) {
+        deliveredJobIds.current.add(job.id);
+        addVideo(job.video);
       }
     },
-    [webhookUrl],
+    [addVideo],
   );
 
-  const startSimulation = useCallback(
-    (requestedPrompt: string) => {
-      const normalizedPrompt = requestedPrompt.trim();
-      const truncatedPrompt =
-        normalizedPrompt.length > 80
-          ? `${normalizedPrompt.slice(0, 77)}...`
-          : normalizedPrompt;
-      const fallbackPrompt = SIMULATED_PROMPT;
+  const handleTogglePin = useCallback(
+    (video: GeneratedVideo) => {
+      const updated = { ...video, pinned: !video.pinned };
+      setVideos((prev) =>
+        sortHistory(
+          prev.map((existing) =>
+            existing.id === video.id ? updated : existing,
+          ),
+        ),
+      );
+      persist(historyStore.put(updated));
+    },
+    [historyStore],
+  );
 
-      cleanupTimers();
-      setStage("loading");
-      setErrorMessage(null);
-      setIsSimulatedRun(true);
-      setSimulationMessage(
-        normalizedPrompt &&
-          normalizedPrompt.toLowerCase() !== SIMULATED_PROMPT.toLowerCase()
-          ? `Workflow online — showing our typing-speed demo while "${truncatedPrompt}" waits its turn.`
-          : "Workflow online — showing our speed while we prep the finished clip.",
+  const handleMeasuredVideo = useCallback(
+    (video: GeneratedVideo, patch: Partial<GeneratedVideo>) => {
+      const updated = { ...video, ...patch };
+      setVideos((prev) =>
+        prev.map((existing) => (existing.id === video.id ? updated : existing)),
       );
-      setSimulationProgress(0);
-      setActiveTimelineIndex(0);
-
-      const checkpoints = [
-        3, 7, 11, 20, 27, 34, 47, 53, 69, 76, 82, 90, 96, 100,
-      ];
-      const checkpointTimings = [
-        2600,
-        5200,
-        7400,
-        10200,
-        12600,
-        14800,
-        17600,
-        19800,
-        23300,
-        25800,
-        28700,
-        31800,
-        SIMULATION_DURATION_MS - 1800,
-        SIMULATION_DURATION_MS,
-      ];
-
-      checkpoints.forEach((percent, index) => {
-        const timeout = window.setTimeout(() => {
-          setSimulationProgress((prev) => Math.max(prev, percent));
-        }, checkpointTimings[index]);
-        simulationTimers.current.push(timeout);
-      });
+      persist(historyStore.put(updated));
+    },
+    [historyStore],
+  );
 
-      const middleMarker = window.setTimeout(
-        () => {
-          setActiveTimelineIndex(1);
-          setSimulationMessage(
-            "Gathering stock clips and voiceover layers",
+  const handleDeleteVideo = useCallback(
+    (video: GeneratedVideo) => {
+      setVideos((prev) => prev.filter((existing) => existing.id !== video.id));
+      persist(historyStore.remove(video.id));
+    },
+    [historyStore],
+  );
+
+  const handleClearHistory = useCallback(() => {
+    if (!window.confirm("Remove every render from this gallery?")) {
+      return;
+    }
+    setVideos([]);
+    persist(historyStore.clear());
+  }, [historyStore]);
+
+  const scheduleSimulation = useCallback(
+    (
+      jobId: string,
+      topic: string,
+      storyboard?: Storyboard,
+      parentId?: string,
+    ) => {
+      const { fixture } = matchFixture(topic);
+      const scenes = storyboard?.scenes ?? fixture.scenes;
+
+      const timers = demoTimeline(fixture, scenes, demoSpeed).map((step) =>
+        window.setTimeout(() => {
+          const event = { ...step.event, at: Date.now() };
+
+          if (event.type !== "render_succeeded") {
+            setJobs((prev) =>
+              prev.map((existing) =>
+                existing.id === jobId
+                  ? {
+                      ...existing,
+                      stage: step.stage,
+                      progress: Math.max(existing.progress, step.progress),
+                      events: [...existing.events, event],
+                      updatedAt: event.at,
+                    }
+                  : existing,
+              ),
+            );
+            return;
+          }
+
+          const video = { ...fixtureVideo(fixture), parentId };
+          setJobs((prev) =>
+            prev.map((existing) =>
+              existing.id === jobId
+                ? {
+                    ...existing,
+                    status: "succeeded",
+                    stage: "delivered",
+                    progress: 100,
+                    events: [...existing.events, event],
+                    updatedAt: event.at,
+                    video,
+                    attempts: settleAttempt(existing.attempts, "succeeded"),
+                  }
+                : existing,
+            ),
           );
-        },
-        Math.min(SIMULATION_DURATION_MS - 5000, 13000),
+          addVideo(video);
+          cleanupTimers(jobId);
+        }, step.at),
       );
-      simulationTimers.current.push(middleMarker);
-
-      const finalize = window.setTimeout(() => {
-        setActiveTimelineIndex(2);
-        setStage("success");
-        setVideos((prev) => [
-          {
-            id: crypto.randomUUID(),
-            prompt: fallbackPrompt,
-            url: SIMULATED_VIDEO_URL,
-            createdAt: Date.now(),
-            simulated: true,
-          },
-          ...prev,
-        ]);
-        setIsSimulatedRun(false);
-        setSimulationMessage(null);
-        setSimulationProgress(100);
-        cleanupTimers();
-        setPrompt("");
-      }, SIMULATION_DURATION_MS);
-      simulationTimers.current.push(finalize);
+      simulationTimers.current.set(jobId, timers);
     },
-    [cleanupTimers],
+    [addVideo, cleanupTimers, demoSpeed],
+  );
+
+  const startSimulation = useCallback(
+    (
+      requestedPrompt: string,
+      requestedBrief: BriefOptions,
+      storyboard?: Storyboard,
+      parentId?: string,
+    ) => {
+      const topic = requestedPrompt.trim();
+      const { fixture, matched } = matchFixture(topic);
+      const jobId = crypto.randomUUID();
+      const now = Date.now();
+      const job: JobCard = {
+        id: jobId,
+        topic,
+        brief: requestedBrief,
+        storyboard,
+        parentId,
+        status: "running",
+        stage: "received",
+        progress: 0,
+        createdAt: now,
+        updatedAt: now,
+        events: [],
+        attempts: [{ number: 1, trigger: "initial", startedAt: now }],
+        simulated: true,
+        message: [
+          matched
+            ? `Demo mode: playing back the "${fixture.title}" sample.`
+            : `Demo mode: no sample matches this prompt, so this plays the "${fixture.title}" sample.`,
+          storyboard &&
+            "The sample keeps its own script, so your edited scenes only shape the progress.",
+        ]
+          .filter(Boolean)
+          .join(" "),
+      };
+
+      setJobs((prev) => [job, ...prev]);
+      scheduleSimulation(jobId, topic, storyboard, parentId);
+    },
+    [scheduleSimulation],
+  );
+
+  const handleJobUpdate = useCallback(
+    (job: GenerationJob) => {
+      updateJob(job.id, job);
+      deliverJob(job);
+    },
+    [deliverJob, updateJob],
+  );
+
+  const activeJobIds = useMemo(
+    () =>
+      jobs
+        .filter((job) => !job.simulated && isJobActive(job))
+        .map((job) => job.id)
+        .join(","),
+    [jobs],
+  );
+
+  useEffect(() => {
+    if (!activeJobIds) {
+      return;
+    }
+
+    const ids = activeJobIds.split(",");
+    const timer = window.setInterval(() => {
+      ids.forEach((id) => {
+        fetchJob(id)
+          .then(handleJobUpdate)
+          .catch((error) => console.error(error));
+      });
+    }, POLL_INTERVAL_MS);
+
+    return () => window.clearInterval(timer);
+  }, [activeJobIds, handleJobUpdate]);
+
+  const handleCampaignUpdate = useCallback(
+    (run: CampaignResponse) => {
+      setCampaignRuns((prev) =>
+        prev.map((existing) =>
+          existing.campaign.id === run.campaign.id ? run : existing,
+        ),
+      );
+      run.jobs.forEach(deliverJob);
+    },
+    [deliverJob],
+  );
+
+  const activeCampaignIds = useMemo(
+    () =>
+      campaignRuns
+        .filter(isCampaignActive)
+        .map((run) => run.campaign.id)
+        .join(","),
+    [campaignRuns],
+  );
+
+  useEffect(() => {
+    if (!activeCampaignIds) {
+      return;
+    }
+
+    const ids = activeCampaignIds.split(",");
+    const timer = window.setInterval(() => {
+      ids.forEach((id) => {
+        fetchCampaign(id)
+          .then(handleCampaignUpdate)
+          .catch((error) => console.error(error));
+      });
+    }, POLL_INTERVAL_MS);
+
+    return () => window.clearInterval(timer);
+  }, [activeCampaignIds, handleCampaignUpdate]);
+
+  // Quotas change when renders start or finish, and free up as the oldest
+  // renders age out of their window.
+  const nextReset = Math.min(
+    ...usage.flatMap((meter) =>
+      meter.resetAt && meter.remaining === 0 ? [meter.resetAt] : [],
+    ),
   );
 
-  const shouldSimulatePrompt = useCallback((value: string) => {
-    return value.trim().toLowerCase() === SIMULATED_PROMPT.toLowerCase();
+  useEffect(() => {
+    if (session?.provider && !session.user) {
+      setUsage([]);
+      return;
+    }
+
+    let cancelled = false;
+    const refresh = () =>
+      fetchUsage()
+        .then((meters) => !cancelled && setUsage(meters))
+        .catch((error) => console.error(error));
+
+    refresh();
+    const timer = Number.isFinite(nextReset)
+      ? window.setTimeout(refresh, Math.max(0, nextReset - Date.now()) + 1000)
+      : undefined;
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [
+    session,
+    activeJobIds,
+    activeCampaignIds,
+    campaignRuns.length,
+    formError,
+    nextReset,
+  ]);
+
+  const handleStartCampaign = useCallback(
+    async (name: string, rows: CampaignRow[], concurrency: number) => {
+      try {
+        const run = await submitCampaign({
+          name,
+          rows,
+          brief,
+          brand,
+          concurrency,
+          timeoutSeconds,
+        });
+        setCampaignRuns((prev) => [run, ...prev]);
+        return null;
+      } catch (error) {
+        console.error(error);
+        return toErrorInfo(error);
+      }
+    },
+    [brand, brief, timeoutSeconds],
+  );
+
+  const handleDismissCampaign = useCallback((campaignId: string) => {
+    setCampaignRuns((prev) =>
+      prev.filter((run) => run.campaign.id !== campaignId),
+    );
   }, []);
 
   const handleGenerate = useCallback(
@@ -324,97 +877,333 @@ export default function Home() {
       const trimmedPrompt = prompt.trim();
 
       if (!trimmedPrompt) {
-        setErrorMessage("Tell us what story to bring to life first.");
+        setFormError({
+          code: "invalid_request",
+          message: "Tell us what story to bring to life first.",
+          retryable: false,
+        });
         return;
       }
 
-      setStage("loading");
-      setErrorMessage(null);
-
-      if (!webhookUrl) {
-        if (shouldSimulatePrompt(trimmedPrompt)) {
-          startSimulation(trimmedPrompt);
-        } else {
-          setStage("error");
-          setErrorMessage(RATE_LIMIT_ERROR);
-        }
+      const unfilled = templateVariables(trimmedPrompt).filter((name) =>
+        pendingVariables.includes(name),
+      );
+      if (unfilled.length > 0) {
+        setFormError({
+          code: "invalid_request",
+          message: `Fill in ${unfilled.map((name) => `{${name}}`).join(", ")} before generating.`,
+          retryable: false,
+        });
         return;
       }
 
-      try {
-        const result = await callWebhook({ topic: trimmedPrompt });
+      const controller = new AbortController();
+      const parentId = remixOf?.id;
+      submitController.current = controller;
+      setIsSubmitting(true);
+      setFormError(null);
 
-        const videoUrl = result?.videoUrl || result?.url || "";
-
-        if (!videoUrl) {
-          if (shouldSimulatePrompt(trimmedPrompt)) {
-            startSimulation(trimmedPrompt);
-          } else {
-            setStage("error");
-            setErrorMessage(RATE_LIMIT_ERROR);
-          }
-          return;
+      try {
+        if (demoMode && reviewFirst) {
+          const { fixture } = matchFixture(trimmedPrompt);
+          setDraft({
+            topic: trimmedPrompt,
+            brief,
+            storyboard: fixtureStoryboard(fixture),
+            parentId,
+            demo: true,
+          });
+          setDraftError(null);
+        } else if (demoMode) {
+          startSimulation(trimmedPrompt, brief, undefined, parentId);
+        } else if (reviewFirst) {
+          const storyboard = await requestScript(
+            { topic: trimmedPrompt, brief },
+            controller.signal,
+          );
+          setDraft({
+            topic: trimmedPrompt,
+            brief,
+            storyboard,
+            brand,
+            timeoutSeconds,
+            parentId,
+          });
+          setDraftError(null);
+        } else {
+          const job = await submitJob(
+            { topic: trimmedPrompt, brief, brand, parentId, timeoutSeconds },
+            controller.signal,
+          );
+          setJobs((prev) => [job, ...prev]);
         }
-
-        cleanupTimers();
-        setIsSimulatedRun(false);
-        setSimulationMessage(null);
-        setSimulationProgress(0);
-        setActiveTimelineIndex(2);
-        setStage("success");
-
-        setVideos((prev) => [
-          {
-            id: crypto.randomUUID(),
-            prompt: trimmedPrompt,
-            url: videoUrl,
-            createdAt: Date.now(),
-            thumbnailUrl: result?.thumbnailUrl ?? result?.posterUrl,
-            narration: result?.narration,
-            audioUrl: result?.audioUrl,
-            scenes: Array.isArray(result?.scenes)
-              ? (result.scenes as Scene[])
-              : undefined,
-          },
-          ...prev,
-        ]);
         setPrompt("");
+        setPendingVariables([]);
+        setRemixOf(null);
       } catch (error) {
-        console.error(error);
-        if (shouldSimulatePrompt(trimmedPrompt)) {
-          startSimulation(trimmedPrompt);
-        } else {
-          setStage("error");
-          setErrorMessage(RATE_LIMIT_ERROR);
+        if (!isAbortError(error)) {
+          console.error(error);
+          setFormError(toErrorInfo(error));
         }
+      } finally {
+        submitController.current = null;
+        setIsSubmitting(false);
       }
     },
     [
-      callWebhook,
-      cleanupTimers,
+      brand,
+      brief,
+      demoMode,
+      pendingVariables,
       prompt,
-      shouldSimulatePrompt,
+      remixOf,
+      reviewFirst,
       startSimulation,
-      webhookUrl,
+      timeoutSeconds,
     ],
   );
 
-  const handleChangePrompt = useCallback(
-    (value: string) => {
-      setPrompt(value);
-      if (stage === "error" || stage === "success") {
-        setStage("idle");
-        setActiveTimelineIndex(0);
-        setErrorMessage(null);
-        setIsSimulatedRun(false);
-        setSimulationMessage(null);
-        setSimulationProgress(0);
-        cleanupTimers();
+  const handleStopSubmit = useCallback(() => {
+    submitController.current?.abort();
+  }, []);
+
+  const handleApproveStoryboard = useCallback(async () => {
+    if (!draft) {
+      return;
+    }
+
+    if (draft.demo) {
+      startSimulation(
+        draft.topic,
+        draft.brief,
+        draft.storyboard,
+        draft.parentId,
+      );
+      setDraft(null);
+      setRemixOf(null);
+      return;
+    }
+
+    setIsSubmitting(true);
+    setDraftError(null);
+
+    try {
+      const job = await submitJob(draft);
+      setJobs((prev) => [job, ...prev]);
+      setDraft(null);
+      setRemixOf(null);
+    } catch (error) {
+      console.error(error);
+      setDraftError(toErrorInfo(error));
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [draft, startSimulation]);
+
+  const handleRerender = useCallback(
+    async (video: GeneratedVideo, clips: ClipSelection[]) => {
+      if (!video.scenes) {
+        return null;
+      }
+
+      try {
+        const job = await submitJob({
+          topic: video.prompt,
+          brief: video.brief,
+          storyboard: { title: video.title ?? "", scenes: video.scenes },
+          clips,
+          brand: video.brand,
+          parentId: video.id,
+        });
+        setJobs((prev) => [job, ...prev]);
+        return null;
+      } catch (error) {
+        console.error(error);
+        return toErrorInfo(error);
+      }
+    },
+    [],
+  );
+
+  const handleCancelJob = useCallback(
+    (job: JobCard) => {
+      if (job.simulated) {
+        cleanupTimers(job.id);
+        updateJob(job.id, {
+          status: "cancelled",
+          attempts: settleAttempt(job.attempts, "cancelled"),
+        });
+        return;
+      }
+
+      cancelJob(job.id)
+        .then(handleJobUpdate)
+        .catch((error) => console.error(error));
+    },
+    [cleanupTimers, handleJobUpdate, updateJob],
+  );
+
+  const handleRetryJob = useCallback(
+    (job: JobCard) => {
+      if (job.simulated) {
+        const now = Date.now();
+        updateJob(job.id, {
+          status: "running",
+          stage: "received",
+          progress: 0,
+          events: [],
+          error: undefined,
+          updatedAt: now,
+          attempts: [
+            ...job.attempts,
+            {
+              number: job.attempts.length + 1,
+              trigger: "manual",
+              startedAt: now,
+            },
+          ],
+        });
+        scheduleSimulation(job.id, job.topic, job.storyboard, job.parentId);
+        return;
+      }
+
+      retryJob(job.id)
+        .then(handleJobUpdate)
+        .catch((error) => {
+          console.error(error);
+          updateJob(job.id, { error: toErrorInfo(error) });
+        });
+    },
+    [handleJobUpdate, scheduleSimulation, updateJob],
+  );
+
+  const handleDismissJob = useCallback(
+    (jobId: string) => {
+      cleanupTimers(jobId);
+      setJobs((prev) => prev.filter((job) => job.id !== jobId));
+    },
+    [cleanupTimers],
+  );
+
+  const handleChangePrompt = useCallback((value: string) => {
+    setPrompt(value);
+    setFormError(null);
+  }, []);
+
+  const handleApplyTemplate = useCallback(
+    (value: string, templateBrief: BriefOptions) => {
+      handleChangePrompt(value);
+      setPendingVariables(templateVariables(value));
+      setBrief(templateBrief);
+    },
+    [handleChangePrompt],
+  );
+
+  // Remixing reopens the render's brief, and its script when it has one, as
+  // the starting point for a new version.
+  const handleRemix = useCallback(
+    (video: GeneratedVideo) => {
+      const remixBrief = video.brief ?? defaultBrief;
+      handleChangePrompt(video.prompt);
+      setPendingVariables([]);
+      setBrief(remixBrief);
+      setRemixOf(video);
+      if (video.brand && brandKits.some((kit) => kit.id === video.brand?.id)) {
+        setBrandKitId(video.brand.id);
+      }
+
+      if (video.scenes && video.scenes.length > 0) {
+        setDraft({
+          topic: video.prompt,
+          brief: remixBrief,
+          storyboard: { title: video.title ?? "", scenes: video.scenes },
+          brand: video.brand,
+          timeoutSeconds,
+          parentId: video.id,
+          demo: demoMode,
+        });
+        setDraftError(null);
+      } else {
+        setDraft(null);
       }
+      window.scrollTo({ top: 0, behavior: "smooth" });
     },
-    [cleanupTimers, stage],
+    [brandKits, demoMode, handleChangePrompt, timeoutSeconds],
   );
 
+  const handleToggleCompare = useCallback((video: GeneratedVideo) => {
+    setCompareIds((prev) =>
+      prev.includes(video.id)
+        ? prev.filter((id) => id !== video.id)
+        : [...prev, video.id].slice(-2),
+    );
+  }, []);
+
+  const handleCompareWithParent = useCallback((video: GeneratedVideo) => {
+    if (video.parentId) {
+      setCompareIds([video.parentId, video.id]);
+    }
+  }, []);
+
+  const compareVideos = compareIds.flatMap((id) => {
+    const video = videos.find((candidate) => candidate.id === id);
+    return video ? [video] : [];
+  });
+
+  // Renders made before sign-in was turned on have no workspace and show in
+  // every one.
+  const workspaceVideos = useMemo(
+    () =>
+      session?.provider
+        ? videos.filter(
+            (video) => !video.workspaceId || video.workspaceId === workspaceId,
+          )
+        : videos,
+    [videos, session?.provider, workspaceId],
+  );
+  const filteredVideos = useMemo(
+    () => filterGallery(workspaceVideos, galleryFilters),
+    [workspaceVideos, galleryFilters],
+  );
+  const galleryCampaigns = useMemo(
+    () =>
+      Array.from(
+        new Map(
+          workspaceVideos.flatMap((video) =>
+            video.campaign
+              ? [[video.campaign.id, video.campaign] as const]
+              : [],
+          ),
+        ).values(),
+      ),
+    [workspaceVideos],
+  );
+  const galleryItems = useMemo(
+    () => toGalleryItems(filteredVideos),
+    [filteredVideos],
+  );
+  const renderCard = (video: GeneratedVideo) => (
+    <RenderCard
+      key={video.id}
+      video={video}
+      version={versionNumber(video, videos)}
+      parent={videos.find((candidate) => candidate.id === video.parentId)}
+      isComparing={compareIds.includes(video.id)}
+      onTogglePin={handleTogglePin}
+      onDelete={handleDeleteVideo}
+      onRerender={handleRerender}
+      onRemix={handleRemix}
+      onToggleCompare={handleToggleCompare}
+      onCompareWithParent={handleCompareWithParent}
+      onMeasured={handleMeasuredVideo}
+    />
+  );
+
+  const latestJob = jobs[0];
+  const activeTimelineIndex = latestJob
+    ? timelineIndexByStage[latestJob.stage]
+    : 0;
+
   return (
     <div className="relative min-h-screen overflow-hidden bg-[#05060b] text-white">
       <div className="pointer-events-none absolute inset-0 -z-10">
@@ -426,9 +1215,19 @@ export default function Home() {
       <div className="mx-auto flex max-w-6xl flex-col gap-20 px-6 pb-24 pt-16 sm:px-10 lg:gap-28">
         <header className="flex flex-col gap-10">
           <div className="inline-flex items-center gap-3 self-start rounded-full border border-white/10 bg-white/5 px-4 py-1.5 text-sm text-white/80 backdrop-blur">
-            <span className="inline-flex h-2 w-2 rounded-full bg-emerald-400" />
-            make webhook live
+            <span
+              className={classNames(
+                "inline-flex h-2 w-2 rounded-full",
+                demoMode ? "bg-amber-400" : "bg-emerald-400",
+              )}
+            />
+            {demoMode
+              ? "Demo mode · renders are simulated"
+              : "make webhook live"}
           </div>
+          {session && (
+            <AccountPanel session={session} onSessionChange={setSession} />
+          )}
           <div className="grid gap-6 lg:grid-cols-[1.1fr_0.9fr] lg:items-center lg:gap-14">
             <div className="flex flex-col gap-6">
               <h1 className="text-4xl font-semibold leading-tight tracking-tight text-white sm:text-5xl">
@@ -464,6 +1263,24 @@ export default function Home() {
                 onSubmit={handleGenerate}
                 className="relative flex flex-col gap-6 rounded-3xl border border-white/10 bg-white/5 p-6 backdrop-blur-lg sm:p-8"
               >
+                {remixOf && (
+                  <div className="flex items-center justify-between gap-3 rounded-2xl border border-sky-300/30 bg-sky-300/10 px-4 py-3 text-sm text-white/80">
+                    <span>
+                      Remixing{" "}
+                      <span className="font-medium text-white">
+                        {remixOf.title ?? remixOf.prompt}
+                      </span>
+                      . The result is saved as its next version.
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => setRemixOf(null)}
+                      className="shrink-0 text-xs text-white/60 underline-offset-4 transition hover:text-white hover:underline"
+                    >
+                      Start fresh
+                    </button>
+                  </div>
+                )}
                 <div className="flex flex-col gap-3">
                   <label
                     htmlFor="prompt"
@@ -483,44 +1300,147 @@ export default function Home() {
                     className="w-full resize-none rounded-2xl border border-white/10 bg-black/30 px-4 py-3 text-base text-white shadow-inner outline-none ring-0 transition focus:border-white/30 focus:bg-black/20 focus:shadow-[0_0_0_2px_rgba(255,255,255,0.1)]"
                   />
                   <p className="text-xs text-white/50">
-                    Tip: Mention length, aspect ratio, music mood, and voice
-                    style for best results.
+                    Tip: Describe the story and tone here, then set the format,
+                    voice, and music in the brief settings below.
                   </p>
                 </div>
-                <div className="flex flex-wrap gap-3">
-                  {promptIdeas.map((idea) => (
-                    <button
-                      key={idea}
-                      type="button"
-                      onClick={() => handleChangePrompt(idea)}
-                      className="rounded-full border border-white/10 bg-white/10 px-4 py-2 text-left text-xs text-white/80 transition hover:border-white/30 hover:bg-white/20"
+                <details className="group rounded-2xl border border-white/10 bg-black/20 px-4 py-3">
+                  <summary className="cursor-pointer select-none text-sm text-white/70">
+                    Brief settings
+                    <span className="ml-2 text-xs text-white/40">
+                      {brief.aspectRatio} · {brief.durationSeconds}s ·{" "}
+                      {brief.sceneCount} scenes
+                    </span>
+                  </summary>
+                  <div className="mt-4">
+                    <BriefControls brief={brief} onChange={setBrief} />
+                  </div>
+                  <label className="mt-4 flex items-center justify-between gap-3 text-sm text-white/70">
+                    Give up after
+                    <select
+                      value={timeoutSeconds ?? ""}
+                      onChange={(event) =>
+                        setTimeoutSeconds(
+                          event.currentTarget.value
+                            ? Number(event.currentTarget.value)
+                            : undefined,
+                        )
+                      }
+                      className="rounded-full border border-white/10 bg-black/30 px-3 py-1 text-xs text-white outline-none focus:border-white/30"
                     >
-                      {idea}
-                    </button>
-                  ))}
+                      {timeoutOptions.map((option) => (
+                        <option key={option.label} value={option.value ?? ""}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                </details>
+                <details className="group rounded-2xl border border-white/10 bg-black/20 px-4 py-3">
+                  <summary className="cursor-pointer select-none text-sm text-white/70">
+                    Brand kit
+                    <span className="ml-2 text-xs text-white/40">
+                      {brand?.name ?? "None"}
+                    </span>
+                  </summary>
+                  <div className="mt-4">
+                    <BrandKitEditor
+                      kits={brandKits}
+                      selectedId={brandKitId}
+                      onSelect={handleSelectBrandKit}
+                      onSave={handleSaveBrandKit}
+                      onDelete={handleDeleteBrandKit}
+                    />
+                  </div>
+                </details>
+                <label className="flex items-center gap-3 text-sm text-white/70">
+                  <input
+                    type="checkbox"
+                    checked={reviewFirst}
+                    onChange={(event) =>
+                      setReviewFirst(event.currentTarget.checked)
+                    }
+                    className="h-4 w-4 accent-white"
+                  />
+                  Review the storyboard before rendering
+                </label>
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <label className="flex items-center gap-3 text-sm text-white/70">
+                    <input
+                      type="checkbox"
+                      checked={demoMode}
+                      onChange={(event) =>
+                        setDemoMode(event.currentTarget.checked)
+                      }
+                      className="h-4 w-4 accent-amber-300"
+                    />
+                    Demo mode
+                  </label>
+                  {demoMode && (
+                    <label className="flex items-center gap-2 text-xs text-white/60">
+                      Speed
+                      <select
+                        value={demoSpeed}
+                        onChange={(event) =>
+                          setDemoSpeed(Number(event.currentTarget.value))
+                        }
+                        className="rounded-full border border-white/10 bg-black/30 px-3 py-1 text-xs text-white outline-none focus:border-white/30"
+                      >
+                        {demoSpeedOptions.map((speed) => (
+                          <option key={speed} value={speed}>
+                            {speed}×
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  )}
                 </div>
+                <TemplateLibrary
+                  prompt={prompt}
+                  brief={brief}
+                  templates={templates}
+                  onApply={handleApplyTemplate}
+                  onSave={handleSaveTemplate}
+                  onDelete={handleDeleteTemplate}
+                  onImport={handleImportTemplates}
+                />
                 <div className="flex flex-col gap-3">
                   <button
                     type="submit"
-                    disabled={stage === "loading"}
+                    disabled={isSubmitting}
                     className="inline-flex items-center justify-center gap-3 rounded-full bg-white px-6 py-3 text-sm font-semibold text-black transition hover:bg-white/90 disabled:cursor-not-allowed disabled:bg-white/50"
                   >
-                    {stage === "loading" ? (
+                    {isSubmitting ? (
                       <>
                         <span className="inline-flex h-2.5 w-2.5 animate-pulse rounded-full bg-black/70" />
-                        Rendering magic
+                        {reviewFirst
+                          ? "Writing the script"
+                          : "Queuing your brief"}
                       </>
+                    ) : reviewFirst ? (
+                      "Write storyboard"
+                    ) : demoMode ? (
+                      "Simulate short video"
                     ) : (
                       "Generate short video"
                     )}
                   </button>
-                  {errorMessage && (
-                    <p className="text-sm text-rose-300">{errorMessage}</p>
+                  {isSubmitting && !demoMode && (
+                    <button
+                      type="button"
+                      onClick={handleStopSubmit}
+                      className="self-center text-xs text-white/60 underline-offset-4 transition hover:text-white hover:underline"
+                    >
+                      Cancel
+                    </button>
                   )}
+                  {formError && <ErrorPanel error={formError} />}
+                  {!demoMode && <UsageMeters meters={usage} />}
                   {/* Webhook hint removed per requirements */}
-                  {isSimulatedRun && (
+                  {demoMode && (
                     <p className="text-xs text-white/50">
-                      Webhook active — our video will start generating soon.
+                      Nothing is sent to the workflow. Each prompt plays back
+                      the closest sample clip, labelled as simulated.
                     </p>
                   )}
                 </div>
@@ -529,6 +1449,41 @@ export default function Home() {
           </div>
         </header>
 
+        {draft && (
+          <StoryboardEditor
+            storyboard={draft.storyboard}
+            isSubmitting={isSubmitting}
+            error={draftError}
+            onChange={(storyboard) =>
+              setDraft((prev) => prev && { ...prev, storyboard })
+            }
+            onApprove={handleApproveStoryboard}
+            onDiscard={() => {
+              setDraft(null);
+              setDraftError(null);
+            }}
+          />
+        )}
+
+        {compareVideos.length === 2 && (
+          <VersionCompare
+            key={compareIds.join(",")}
+            videos={[compareVideos[0], compareVideos[1]]}
+            onClose={() => setCompareIds([])}
+          />
+        )}
+
+        <CampaignPanel
+          runs={campaignRuns}
+          disabled={
+            demoMode
+              ? "Demo mode only simulates single renders. Turn it off to run a campaign."
+              : undefined
+          }
+          onStart={handleStartCampaign}
+          onDismiss={handleDismissCampaign}
+        />
+
         <section
           aria-label="Generation status"
           className="grid gap-10 rounded-3xl border border-white/10 bg-white/5 p-8 backdrop-blur-lg"
@@ -545,24 +1500,19 @@ export default function Home() {
             </div>
             <div className="flex items-center gap-3 text-sm text-white/60">
               <span className="inline-flex h-2 w-2 rounded-full bg-sky-400" />
-              {stage === "loading"
-                ? isSimulatedRun
-                  ? "Rendering preview"
-                  : "Rendering in progress"
-                : stage === "success"
-                  ? "Ready to share"
-                  : stage === "error"
-                    ? "Something needs attention"
-                    : "Waiting for your brief"}
+              {describeJob(latestJob)}
             </div>
           </div>
           <ol className="grid gap-6 sm:grid-cols-3">
             {timeline.map((item, index) => {
               const isActive =
-                (stage === "loading" && index <= activeTimelineIndex) ||
-                (stage === "success" && index <= activeTimelineIndex);
+                !!latestJob &&
+                latestJob.status !== "failed" &&
+                latestJob.status !== "cancelled" &&
+                index <= activeTimelineIndex;
               const isCompleted =
-                stage === "success" && index <= activeTimelineIndex;
+                latestJob?.status === "succeeded" &&
+                index <= activeTimelineIndex;
 
               return (
                 <li
@@ -599,24 +1549,63 @@ export default function Home() {
               );
             })}
           </ol>
-          {isSimulatedRun && (
-            <SimulatedLoader
-              progress={simulationProgress}
-              message={simulationMessage}
-            />
+          {jobs.length > 0 && (
+            <ul className="grid gap-4">
+              {jobs.map((job) => (
+                <JobStatusCard
+                  key={job.id}
+                  job={job}
+                  onDismiss={handleDismissJob}
+                  onCancel={handleCancelJob}
+                  onRetry={handleRetryJob}
+                />
+              ))}
+            </ul>
           )}
         </section>
 
         <section className="grid gap-12 lg:grid-cols-[1fr_1fr] lg:gap-16">
           <div className="flex flex-col gap-6">
-            <h2 className="text-2xl font-semibold text-white">
-              Latest renders
-            </h2>
+            <div className="flex items-center justify-between gap-4">
+              <h2 className="text-2xl font-semibold text-white">
+                Latest renders
+              </h2>
+              {workspaceVideos.length > 0 && (
+                <button
+                  type="button"
+                  onClick={handleClearHistory}
+                  className="rounded-full border border-white/10 px-3 py-1 text-xs text-white/60 transition hover:border-rose-300/40 hover:text-rose-200"
+                >
+                  Clear all
+                </button>
+              )}
+            </div>
             <p className="text-sm text-white/60">
               New clips appear the moment makeposts the finished URL back. Keep
               generating and build a full campaign in minutes.
             </p>
-            {videos.length === 0 ? (
+            {compareVideos.length === 1 && (
+              <div className="flex items-center justify-between gap-3 rounded-2xl border border-sky-300/30 bg-sky-300/10 px-4 py-3 text-sm text-white/80">
+                <span>Pick one more render to compare side by side.</span>
+                <button
+                  type="button"
+                  onClick={() => setCompareIds([])}
+                  className="shrink-0 text-xs text-white/60 underline-offset-4 transition hover:text-white hover:underline"
+                >
+                  Clear
+                </button>
+              </div>
+            )}
+            {workspaceVideos.length > 0 && (
+              <GalleryFilterBar
+                filters={galleryFilters}
+                campaigns={galleryCampaigns}
+                shown={filteredVideos.length}
+                total={workspaceVideos.length}
+                onChange={setGalleryFilters}
+              />
+            )}
+            {workspaceVideos.length === 0 ? (
               <div className="flex flex-col items-center justify-center gap-4 rounded-3xl border border-white/10 bg-white/5 p-10 text-center text-white/60">
                 <svg
                   aria-hidden
@@ -658,35 +1647,37 @@ export default function Home() {
                   </span>
                 </div>
               </div>
+            ) : filteredVideos.length === 0 ? (
+              <div className="flex flex-col items-center gap-3 rounded-3xl border border-white/10 bg-white/5 p-8 text-center text-sm text-white/60">
+                No renders match these filters.
+                <button
+                  type="button"
+                  onClick={() =>
+                    setGalleryFilters({
+                      ...defaultGalleryFilters,
+                      sort: galleryFilters.sort,
+                    })
+                  }
+                  className="rounded-full border border-white/10 px-3 py-1 text-xs text-white/70 transition hover:border-white/30 hover:text-white"
+                >
+                  Reset filters
+                </button>
+              </div>
             ) : (
               <ul className="grid gap-6">
-                {videos.map((video) => (
-                  <li
-                    key={video.id}
-                    className="group relative overflow-hidden rounded-3xl border border-white/10 bg-black/40"
-                  >
-                    <div className="absolute inset-x-0 top-0 z-10 flex items-center justify-between bg-gradient-to-b from-black/70 via-black/30 to-transparent px-6 py-4 text-sm text-white/80">
-                      <span className="font-medium text-white">
-                        {video.prompt}
-                      </span>
-                      <span className="rounded-full border border-white/10 bg-white/10 px-3 py-1 text-xs text-white/70">
-                        {formatDate(video.createdAt)}
-                      </span>
-                    </div>
-                    {video.simulated && (
-                      <span className="absolute right-4 top-16 z-10 rounded-full border border-white/20 bg-black/60 px-3 py-1 text-[11px] uppercase tracking-[0.18em] text-white/70">
-                        Sample preview
-                      </span>
-                    )}
-                    <video
-                      src={video.url}
-                      controls
-                      playsInline
-                      poster={video.thumbnailUrl}
-                      className="aspect-[9/16] w-full object-cover transition duration-500 group-hover:scale-[1.01]"
-                    />
-                  </li>
-                ))}
+                {galleryItems.map((item) =>
+                  item.kind === "video" ? (
+                    renderCard(item.video)
+                  ) : (
+                    <CampaignGroup
+                      key={item.campaign.id}
+                      campaign={item.campaign}
+                      videos={item.videos}
+                    >
+                      {item.videos.map(renderCard)}
+                    </CampaignGroup>
+                  ),
+                )}
               </ul>
             )}
           </div>
@@ -721,8 +1712,9 @@ export default function Home() {
             <div className="rounded-2xl border border-white/10 bg-black/40 p-6 text-sm text-white/70">
               <p className="font-medium text-white">Need to white-label?</p>
               <p className="mt-2">
-                Swap colors, logos, and email notifications directly inside make
-                by passing branding tokens alongside each prompt.
+                Save a brand kit with your logo, colors, font, intro and outro,
+                watermark and call to action. The selected kit travels with
+                every prompt and is applied in the render template.
               </p>
             </div>
           </div>
@@ -0,0 +1,169 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+
+import { playerAspectRatio } from "@/lib/gallery";
+import { getRender } from "@/lib/render-store";
+
+type PageProps = {
+  params: Promise<{ id: string }>;
+};
+
+export const dynamic = "force-dynamic";
+
+function summarize(text: string, limit = 160) {
+  return text.length > limit ? `${text.slice(0, limit - 3)}...` : text;
+}
+
+export async function generateMetadata({
+  params,
+}: PageProps): Promise<Metadata> {
+  const { id } = await params;
+  const video = getRender(id);
+
+  if (!video) {
+    return { title: "Render not found | Clipo" };
+  }
+
+  const title = video.title ?? video.prompt;
+  const description = summarize(video.narration ?? video.prompt);
+
+  return {
+    metadataBase: process.env.APP_URL
+      ? new URL(process.env.APP_URL)
+      : undefined,
+    title: `${title} | Clipo`,
+    description,
+    openGraph: {
+      type: "video.other",
+      title,
+      description,
+      url: `/v/${video.id}`,
+      videos: [
+        {
+          url: video.url,
+          type: "video/mp4",
+          width: video.width,
+          height: video.height,
+        },
+      ],
+      images: video.thumbnailUrl ? [{ url: video.thumbnailUrl }] : undefined,
+    },
+    twitter: {
+      card: video.thumbnailUrl ? "summary_large_image" : "summary",
+      title,
+      description,
+      images: video.thumbnailUrl ? [video.thumbnailUrl] : undefined,
+    },
+  };
+}
+
+export default async function SharedRenderPage({ params }: PageProps) {
+  const { id } = await params;
+  const video = getRender(id);
+
+  if (!video) {
+    notFound();
+  }
+
+  const hasCaptions = (video.scenes?.length ?? 0) > 0;
+
+  return (
+    <div className="relative min-h-screen overflow-hidden bg-[#05060b] text-white">
+      <div className="pointer-events-none absolute inset-0 -z-10">
+        <div className="absolute left-1/2 top-[10%] h-[480px] w-[480px] -translate-x-1/2 rounded-full bg-[radial-gradient(circle_at_top,_rgba(62,91,255,0.25),transparent_60%)] blur-3xl" />
+      </div>
+
+      <main className="mx-auto flex max-w-5xl flex-col gap-10 px-6 pb-24 pt-16 sm:px-10">
+        <Link
+          href="/"
+          className="self-start rounded-full border border-white/10 bg-white/5 px-4 py-1.5 text-sm text-white/80 transition hover:border-white/30"
+        >
+          ← Clipo studio
+        </Link>
+
+        <div className="grid gap-10 lg:grid-cols-[0.9fr_1.1fr] lg:items-start">
+          <div className="overflow-hidden rounded-3xl border border-white/10 bg-black/40">
+            <video
+              src={video.url}
+              controls
+              playsInline
+              poster={video.thumbnailUrl}
+              style={{ aspectRatio: playerAspectRatio(video) }}
+              className="max-h-[80vh] w-full bg-black object-contain"
+            >
+              {hasCaptions && (
+                <track
+                  kind="subtitles"
+                  src={`/api/renders/${video.id}/captions`}
+                  srcLang={video.brief?.language ?? "en"}
+                  label="Captions"
+                  default
+                />
+              )}
+            </video>
+          </div>
+
+          <div className="flex flex-col gap-8">
+            <div className="flex flex-col gap-3">
+              <h1 className="text-3xl font-semibold leading-tight tracking-tight sm:text-4xl">
+                {video.title ?? video.prompt}
+              </h1>
+              <p className="text-sm text-white/60">
+                {video.title && <>“{video.prompt}” · </>}
+                {new Date(video.createdAt).toLocaleDateString([], {
+                  dateStyle: "medium",
+                })}
+                {video.duration !== undefined &&
+                  ` · ${Math.round(video.duration)}s`}
+              </p>
+              {video.simulated && (
+                <span className="self-start rounded-full border border-white/20 bg-black/60 px-3 py-1 text-[11px] uppercase tracking-[0.18em] text-white/70">
+                  Sample preview
+                </span>
+              )}
+            </div>
+
+            {video.narration && (
+              <section className="flex flex-col gap-2 rounded-2xl border border-white/10 bg-white/5 p-6">
+                <h2 className="text-sm font-semibold text-white/90">
+                  Narration
+                </h2>
+                <p className="text-sm leading-relaxed text-white/70">
+                  {video.narration}
+                </p>
+              </section>
+            )}
+
+            {video.scenes && video.scenes.length > 0 && (
+              <section className="flex flex-col gap-4">
+                <h2 className="text-sm font-semibold text-white/90">Scenes</h2>
+                <ol className="grid gap-3">
+                  {video.scenes.map((scene) => (
+                    <li
+                      key={scene.sceneNumber}
+                      className="flex flex-col gap-1 rounded-2xl border border-white/10 bg-black/30 p-4 text-sm"
+                    >
+                      <span className="flex justify-between text-white/90">
+                        <span>Scene {scene.sceneNumber}</span>
+                        <span className="text-xs text-white/50">
+                          {scene.duration}s
+                        </span>
+                      </span>
+                      <span className="text-white/70">{scene.narration}</span>
+                      {scene.visualDescription && (
+                        <span className="text-xs text-white/50">
+                          {scene.visualDescription}
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              </section>
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+import type { AspectRatio } from "./brief";
+import { type GenerateErrorInfo, errorCatalog } from "./errors";
+import { toStoredRecord } from "./history";
+import type {
+  CampaignRequest,
+  CampaignResponse,
+  FootageResponse,
+  GenerateErrorBody,
+  GeneratedVideo,
+  GenerateRequest,
+  JobResponse,
+  ScriptResponse,
+  SessionResponse,
+  SignInRequest,
+  UsageResponse,
+  WorkspaceResponse,
+  WorkspaceRole,
+} from "./types";
+
+export class ApiRequestError extends Error {
+  readonly info: GenerateErrorInfo;
+
+  constructor(info: GenerateErrorInfo) {
+    super(info.message);
+    this.name = "ApiRequestError";
+    this.info = info;
+  }
+}
+
+export function toErrorInfo(error: unknown): GenerateErrorInfo {
+  if (error instanceof ApiRequestError) {
+    return error.info;
+  }
+
+  return {
+    code: "network",
+    message: errorCatalog.network.message,
+    retryable: true,
+    detail: error instanceof Error ? error.message : String(error),
+  };
+}
+
+async function readApiResponse<T>(response: Response): Promise<T> {
+  if (!response.ok) {
+    const body = (await response
+      .json()
+      .catch(() => null)) as GenerateErrorBody | null;
+    throw new ApiRequestError(
+      body?.error ?? {
+        code: "upstream_http",
+        message: "The generation route responded with an error.",
+        retryable: true,
+        upstreamStatus: response.status,
+      },
+    );
+  }
+
+  return (await response.json()) as T;
+}
+
+function postJson(
+  url: string,
+  body: unknown,
+  signal?: AbortSignal,
+  method = "POST",
+) {
+  return fetch(url, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(body),
+    signal,
+  });
+}
+
+export async function submitJob(
+  request: GenerateRequest,
+  signal?: AbortSignal,
+) {
+  const response = await postJson("/api/generate", request, signal);
+  return (await readApiResponse<JobResponse>(response)).job;
+}
+
+export async function submitCampaign(request: CampaignRequest) {
+  const response = await postJson("/api/campaigns", request);
+  return readApiResponse<CampaignResponse>(response);
+}
+
+export async function fetchCampaign(id: string) {
+  const response = await fetch(`/api/campaigns/${id}`, { cache: "no-store" });
+  return readApiResponse<CampaignResponse>(response);
+}
+
+/** Stops a job; the server aborts its requests and tells the backend. */
+export async function cancelJob(id: string) {
+  const response = await fetch(`/api/jobs/${id}`, { method: "DELETE" });
+  return (await readApiResponse<JobResponse>(response)).job;
+}
+
+/** Starts a new attempt for a failed or cancelled job. */
+export async function retryJob(id: string) {
+  const response = await fetch(`/api/jobs/${id}/retry`, { method: "POST" });
+  return (await readApiResponse<JobResponse>(response)).job;
+}
+
+export async function fetchJob(id: string) {
+  const response = await fetch(`/api/jobs/${id}`, { cache: "no-store" });
+  return (await readApiResponse<JobResponse>(response)).job;
+}
+
+export async function requestScript(
+  request: GenerateRequest,
+  signal?: AbortSignal,
+) {
+  const response = await postJson("/api/script", request, signal);
+  return (await readApiResponse<ScriptResponse>(response)).storyboard;
+}
+
+export async function searchFootage(query: string, aspectRatio: AspectRatio) {
+  const params = new URLSearchParams({ query, aspectRatio });
+  const response = await fetch(`/api/footage?${params}`);
+  return (await readApiResponse<FootageResponse>(response)).candidates;
+}
+
+/** Makes sure the server knows a render so its share page resolves. */
+export async function publishRender(video: GeneratedVideo) {
+  const response = await postJson("/api/renders", toStoredRecord(video));
+
+  if (!response.ok) {
+    await readApiResponse(response);
+  }
+
+  return new URL(`/v/${encodeURIComponent(video.id)}`, window.location.origin)
+    .href;
+}
+
+export async function fetchUsage() {
+  const response = await fetch("/api/usage", { cache: "no-store" });
+  return (await readApiResponse<UsageResponse>(response)).meters;
+}
+
+export async function fetchSession() {
+  const response = await fetch("/api/auth/session", { cache: "no-store" });
+  return readApiResponse<SessionResponse>(response);
+}
+
+/**
+ * Signs in through the configured provider. Resolves to null when a magic
+ * link was mailed instead.
+ */
+export async function signIn(request: SignInRequest) {
+  const response = await postJson("/api/auth/sign-in", request);
+  return response.status === 202
+    ? null
+    : readApiResponse<SessionResponse>(response);
+}
+
+export async function signOut() {
+  const response = await fetch("/api/auth/session", { method: "DELETE" });
+  if (!response.ok) {
+    await readApiResponse(response);
+  }
+}
+
+export async function switchWorkspace(workspaceId: string) {
+  const response = await postJson(
+    "/api/auth/session",
+    { workspaceId },
+    undefined,
+    "PATCH",
+  );
+  return readApiResponse<SessionResponse>(response);
+}
+
+export async function createWorkspace(name: string) {
+  const response = await postJson("/api/workspaces", { name });
+  return (await readApiResponse<WorkspaceResponse>(response)).workspace;
+}
+
+export async function fetchWorkspace(id: string) {
+  const response = await fetch(`/api/workspaces/${id}`, { cache: "no-store" });
+  return (await readApiResponse<WorkspaceResponse>(response)).workspace;
+}
+
+/** Adds a member by username or email, or changes their role. */
+export async function setMember(
+  workspaceId: string,
+  identifier: string,
+  role: WorkspaceRole,
+) {
+  const response = await postJson(`/api/workspaces/${workspaceId}/members`, {
+    identifier,
+    role,
+  });
+  return (await readApiResponse<WorkspaceResponse>(response)).workspace;
+}
+
+export async function removeMember(workspaceId: string, userId: string) {
+  const response = await fetch(
+    `/api/workspaces/${workspaceId}/members/${userId}`,
+    { method: "DELETE" },
+  );
+  return (await readApiResponse<WorkspaceResponse>(response)).workspace;
+}
@@ -0,0 +1,97 @@
+import { randomBytes } from "crypto";
+
+import type { AuthProvider } from "../auth";
+import { GenerateError } from "../errors";
+import { sendMail } from "../mail";
+import { createUser, findUser } from "../workspaces";
+
+const LINK_TTL_MS = 15 * 60 * 1000;
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+type PendingLink = { email: string; name?: string; expiresAt: number };
+
+const globalStore = globalThis as typeof globalThis & {
+  __clipoMagicLinks?: Map<string, PendingLink>;
+};
+
+const links = (globalStore.__clipoMagicLinks ??= new Map<
+  string,
+  PendingLink
+>());
+
+function pruneLinks(now: number) {
+  links.forEach((link, token) => {
+    if (link.expiresAt < now) {
+      links.delete(token);
+    }
+  });
+}
+
+function findOrCreate(email: string, name?: string) {
+  return (
+    findUser("email", email) ??
+    createUser({ email, name: name?.trim() || email.split("@")[0] })
+  );
+}
+
+/**
+ * Passwordless sign-in: a one-time link, valid for 15 minutes, is mailed
+ * through the local mail stub to `APP_URL`. Unknown addresses get an account
+ * on first use.
+ */
+export function createMagicLinkProvider(): AuthProvider {
+  return {
+    name: "magic-link",
+    async signIn({ email, name }) {
+      // Never build the link from the request: its Host header is the
+      // caller's to choose, and the token would go wherever it points.
+      const origin = process.env.APP_URL;
+
+      if (!origin) {
+        throw new GenerateError("configuration", {
+          message: "Magic-link sign-in isn't set up.",
+          detail:
+            "Set APP_URL to the app's public origin to mail sign-in links.",
+        });
+      }
+
+      const address = email?.trim().toLowerCase() ?? "";
+
+      if (!EMAIL.test(address)) {
+        throw new GenerateError("invalid_request", {
+          message: "Enter a valid email address.",
+        });
+      }
+
+      const now = Date.now();
+      pruneLinks(now);
+
+      const token = randomBytes(24).toString("base64url");
+      links.set(token, { email: address, name, expiresAt: now + LINK_TTL_MS });
+
+      const url = new URL("/api/auth/verify", origin);
+      url.searchParams.set("token", token);
+      await sendMail({
+        to: address,
+        subject: "Your Clipo sign-in link",
+        text: `Open this link within 15 minutes to sign in:\n${url.href}`,
+      });
+
+      return undefined;
+    },
+    verify(token) {
+      const link = links.get(token);
+      links.delete(token);
+
+      if (!link || link.expiresAt < Date.now()) {
+        return undefined;
+      }
+
+      return findOrCreate(link.email, link.name);
+    },
+    findMember(identifier) {
+      const address = identifier.trim().toLowerCase();
+      return EMAIL.test(address) ? findOrCreate(address) : undefined;
+    },
+  };
+}
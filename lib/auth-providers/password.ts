@@ -0,0 +1,76 @@
+import { randomBytes, scryptSync, timingSafeEqual } from "crypto";
+
+import type { AuthProvider } from "../auth";
+import { GenerateError } from "../errors";
+import { createUser, findUser } from "../workspaces";
+
+const MIN_PASSWORD_LENGTH = 8;
+const USERNAME = /^[a-z0-9][a-z0-9_.-]{2,31}$/i;
+
+function hashPassword(password: string) {
+  const salt = randomBytes(16).toString("hex");
+  return `scrypt$${salt}$${scryptSync(password, salt, 64).toString("hex")}`;
+}
+
+function checkPassword(password: string, stored: string) {
+  const [scheme, salt, hash] = stored.split("$");
+
+  if (scheme !== "scrypt" || !salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, "hex");
+  const actual = scryptSync(password, salt, expected.length);
+  return timingSafeEqual(expected, actual);
+}
+
+/** Username and password accounts, hashed with scrypt. */
+export function createPasswordProvider(): AuthProvider {
+  return {
+    name: "password",
+    async signIn({ username, password, name, create }) {
+      const handle = username?.trim() ?? "";
+
+      if (!USERNAME.test(handle) || !password) {
+        throw new GenerateError("invalid_request", {
+          message:
+            "Enter a username (3–32 letters, digits, dots, dashes or underscores) and a password.",
+        });
+      }
+
+      const existing = findUser("username", handle);
+
+      if (create) {
+        if (existing) {
+          throw new GenerateError("invalid_request", {
+            message: "That username is taken.",
+          });
+        }
+        if (password.length < MIN_PASSWORD_LENGTH) {
+          throw new GenerateError("invalid_request", {
+            message: `Passwords need at least ${MIN_PASSWORD_LENGTH} characters.`,
+          });
+        }
+        return createUser({
+          name: name?.trim() || handle,
+          username: handle,
+          passwordHash: hashPassword(password),
+        });
+      }
+
+      if (
+        !existing?.passwordHash ||
+        !checkPassword(password, existing.passwordHash)
+      ) {
+        throw new GenerateError("unauthenticated", {
+          message: "Wrong username or password.",
+        });
+      }
+
+      return existing;
+    },
+    findMember(identifier) {
+      return findUser("username", identifier);
+    },
+  };
+}
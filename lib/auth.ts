@@ -0,0 +1,243 @@
+import { randomBytes } from "crypto";
+import { cookies } from "next/headers";
+import type { NextResponse } from "next/server";
+
+import { createMagicLinkProvider } from "./auth-providers/magic-link";
+import { createPasswordProvider } from "./auth-providers/password";
+import { GenerateError } from "./errors";
+import { hasRole } from "./roles";
+import type {
+  AuthProviderName,
+  SessionResponse,
+  SignInRequest,
+  User,
+  WorkspaceRole,
+} from "./types";
+import {
+  type UserRecord,
+  ensureWorkspace,
+  getUser,
+  listWorkspaces,
+  publicUser,
+  roleIn,
+} from "./workspaces";
+
+export const SESSION_COOKIE = "clipo_session";
+
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export const authProviderNames: AuthProviderName[] = ["password", "magic-link"];
+
+/**
+ * A way of proving who someone is. Failures are thrown as `GenerateError`s,
+ * like the generation backends.
+ */
+export interface AuthProvider {
+  readonly name: AuthProviderName;
+  /**
+   * Checks what the sign-in form sent. Resolves to the account to start a
+   * session for, or undefined when sign-in finishes elsewhere (a mailed link).
+   */
+  signIn(request: SignInRequest): Promise<UserRecord | undefined>;
+  /** Completes a sign-in that `signIn` left pending, such as a mailed link. */
+  verify?(token: string): UserRecord | undefined;
+  /** The account an admin means when adding a member by email or username. */
+  findMember(identifier: string): UserRecord | undefined;
+}
+
+export function createAuthProvider(name: AuthProviderName): AuthProvider {
+  switch (name) {
+    case "magic-link":
+      return createMagicLinkProvider();
+    default:
+      return createPasswordProvider();
+  }
+}
+
+/**
+ * The provider selected by `AUTH_PROVIDER`. Sign-in is off, and every route
+ * stays open, while it is unset.
+ */
+export function getAuthProvider(): AuthProvider | undefined {
+  const name = process.env.AUTH_PROVIDER;
+
+  if (!name) {
+    return undefined;
+  }
+
+  if (!authProviderNames.includes(name as AuthProviderName)) {
+    throw new GenerateError("configuration", {
+      detail: `AUTH_PROVIDER must be one of ${authProviderNames.join(", ")}; got "${name}".`,
+    });
+  }
+
+  return createAuthProvider(name as AuthProviderName);
+}
+
+type Session = {
+  userId: string;
+  /** The workspace new renders go to. */
+  workspaceId: string;
+  expiresAt: number;
+};
+
+const globalStore = globalThis as typeof globalThis & {
+  __clipoSessions?: Map<string, Session>;
+};
+
+const sessions = (globalStore.__clipoSessions ??= new Map<string, Session>());
+
+export function startSession(user: User) {
+  const token = randomBytes(32).toString("base64url");
+  sessions.set(token, {
+    userId: user.id,
+    workspaceId: ensureWorkspace(user),
+    expiresAt: Date.now() + SESSION_TTL_MS,
+  });
+  return token;
+}
+
+export function setSessionCookie(response: NextResponse, token: string) {
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: SESSION_TTL_MS / 1000,
+  });
+}
+
+export async function endSession(response: NextResponse) {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+  if (token) {
+    sessions.delete(token);
+  }
+  response.cookies.delete(SESSION_COOKIE);
+}
+
+async function readSession() {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+  const session = token ? sessions.get(token) : undefined;
+
+  if (!token || !session) {
+    return undefined;
+  }
+
+  const user = getUser(session.userId);
+
+  if (!user || session.expiresAt < Date.now()) {
+    sessions.delete(token);
+    return undefined;
+  }
+
+  // Members removed from their active workspace fall back to another one.
+  if (!roleIn(session.workspaceId, user.id)) {
+    session.workspaceId = ensureWorkspace(user);
+  }
+
+  return { session, user };
+}
+
+export async function describeSession(): Promise<SessionResponse> {
+  const provider = getAuthProvider();
+  const current = provider ? await readSession() : undefined;
+
+  if (!provider || !current) {
+    return { provider: provider?.name ?? null, user: null, workspaces: [] };
+  }
+
+  return {
+    provider: provider.name,
+    user: publicUser(current.user),
+    workspaces: listWorkspaces(current.user.id),
+    workspaceId: current.session.workspaceId,
+  };
+}
+
+export async function switchWorkspace(workspaceId: string) {
+  const access = await requireAccess(workspaceId, "viewer");
+  const current = await readSession();
+
+  if (access && current) {
+    current.session.workspaceId = workspaceId;
+  }
+}
+
+/** Who is calling, and what they may do in the workspace they acted in. */
+export type Access = {
+  user: User;
+  workspaceId: string;
+  role: WorkspaceRole;
+};
+
+/**
+ * Checks that the caller holds at least `minimum` in `workspaceId`. Resolves
+ * to undefined when sign-in is off; throws `unauthenticated` without a
+ * session and `forbidden` for non-members or too low a role.
+ */
+export async function requireAccess(
+  workspaceId: string | undefined,
+  minimum: WorkspaceRole,
+): Promise<Access | undefined> {
+  if (!getAuthProvider()) {
+    return undefined;
+  }
+
+  const current = await readSession();
+
+  if (!current) {
+    throw new GenerateError("unauthenticated");
+  }
+
+  const role = workspaceId ? roleIn(workspaceId, current.user.id) : undefined;
+
+  if (!workspaceId || !role) {
+    throw new GenerateError("forbidden", {
+      message: "You're not a member of this workspace.",
+    });
+  }
+
+  if (!hasRole(role, minimum)) {
+    throw new GenerateError("forbidden", {
+      detail: `This needs the ${minimum} role; you are ${role === "admin" ? "an" : "a"} ${role}.`,
+    });
+  }
+
+  return { user: publicUser(current.user), workspaceId, role };
+}
+
+/** `requireAccess` for the caller's active workspace. */
+export async function requireWorkspace(minimum: WorkspaceRole) {
+  if (!getAuthProvider()) {
+    return undefined;
+  }
+
+  const current = await readSession();
+
+  if (!current) {
+    throw new GenerateError("unauthenticated");
+  }
+
+  return requireAccess(current.session.workspaceId, minimum);
+}
+
+/**
+ * `requireAccess` for a record that may predate sign-in. Records without a
+ * workspace belong to every one, so the caller's active workspace is checked
+ * instead.
+ */
+export async function requireRecordAccess(
+  workspaceId: string | undefined,
+  minimum: WorkspaceRole,
+) {
+  return workspaceId
+    ? requireAccess(workspaceId, minimum)
+    : requireWorkspace(minimum);
+}
+
+/** Fields that stamp a job or render with who made it and where. */
+export function ownership(access: Access | undefined) {
+  return access
+    ? { ownerId: access.user.id, workspaceId: access.workspaceId }
+    : {};
+}
@@ -0,0 +1,73 @@
+import { createMakeBackend } from "./backends/make";
+import { createMockBackend } from "./backends/mock";
+import { createN8nBackend } from "./backends/n8n";
+import { createRestBackend } from "./backends/rest";
+import { GenerateError } from "./errors";
+import type { SchemaIssue } from "./schema";
+import type { GeneratedVideo, Storyboard, WorkflowRequest } from "./types";
+
+export type BackendName = "n8n" | "make" | "rest" | "mock";
+
+export const backendNames: BackendName[] = ["n8n", "make", "rest", "mock"];
+
+/** What the app knows about a job when it asks the backend about it. */
+export type BackendJob = {
+  jobId: string;
+  topic: string;
+  externalId?: string;
+};
+
+export type BackendState =
+  | { state: "running"; externalId?: string; progress?: number }
+  | {
+      state: "succeeded";
+      externalId?: string;
+      video: GeneratedVideo;
+      issues: SchemaIssue[];
+    };
+
+/**
+ * A service that turns a brief into a rendered video. Failures are thrown as
+ * `GenerateError`s so every backend reports them the same way, and `signal`
+ * aborts in-flight calls when a job is cancelled or times out.
+ */
+export interface GenerationBackend {
+  readonly name: BackendName;
+  /** How often `status` should be polled; omit when progress arrives through callbacks. */
+  readonly pollIntervalMs?: number;
+  script(request: WorkflowRequest, signal?: AbortSignal): Promise<Storyboard>;
+  submit(request: WorkflowRequest, signal?: AbortSignal): Promise<BackendState>;
+  status(job: BackendJob, signal?: AbortSignal): Promise<BackendState>;
+  cancel(job: BackendJob): Promise<void>;
+  /** Maps a native result (from a response or a callback) onto a render. */
+  toVideo(
+    topic: string,
+    result: unknown,
+  ): { video: GeneratedVideo; issues: SchemaIssue[] };
+}
+
+export function createBackend(name: BackendName): GenerationBackend {
+  switch (name) {
+    case "make":
+      return createMakeBackend();
+    case "rest":
+      return createRestBackend();
+    case "mock":
+      return createMockBackend();
+    default:
+      return createN8nBackend();
+  }
+}
+
+/** The backend selected by `GENERATION_BACKEND` (default `n8n`). */
+export function getBackend(): GenerationBackend {
+  const name = process.env.GENERATION_BACKEND || "n8n";
+
+  if (!backendNames.includes(name as BackendName)) {
+    throw new GenerateError("configuration", {
+      detail: `GENERATION_BACKEND must be one of ${backendNames.join(", ")}; got "${name}".`,
+    });
+  }
+
+  return createBackend(name as BackendName);
+}
@@ -0,0 +1,84 @@
+import type { GenerationBackend } from "../backend";
+import {
+  expectStoryboard,
+  isAcceptedResult,
+  normalizeVideo,
+  requestWorkflow,
+} from "../webhook";
+
+function getTarget() {
+  return { url: process.env.MAKE_WEBHOOK_URL, setting: "MAKE_WEBHOOK_URL" };
+}
+
+const fieldAliases: Record<string, string> = {
+  video_url: "videoUrl",
+  url: "videoUrl",
+  thumbnail_url: "thumbnailUrl",
+  snapshot_url: "thumbnailUrl",
+  render_id: "renderId",
+  audio_url: "audioUrl",
+  video_clips: "videoClips",
+  execution_id: "executionId",
+};
+
+/**
+ * Make.com modules emit snake_case keys (and Creatomate's `url` /
+ * `snapshot_url`), so rename them before the shared result contract runs.
+ */
+function fromMake(result: unknown) {
+  if (typeof result !== "object" || result === null || Array.isArray(result)) {
+    return result;
+  }
+
+  return Object.fromEntries(
+    Object.entries(result).map(([key, value]) => [
+      fieldAliases[key] ?? key,
+      value,
+    ]),
+  );
+}
+
+/**
+ * A Make.com scenario behind a custom webhook. It takes the same request as
+ * the n8n workflow and answers through a Webhook response module, or with
+ * "Accepted" followed by job callbacks.
+ */
+export function createMakeBackend(): GenerationBackend {
+  const toVideo = (topic: string, result: unknown) =>
+    normalizeVideo(topic, fromMake(result));
+
+  return {
+    name: "make",
+    async script(request, signal) {
+      return expectStoryboard(
+        await requestWorkflow(getTarget(), {
+          payload: { ...request, mode: "script" },
+          signal,
+        }),
+      );
+    },
+    async submit(request, signal) {
+      const result = fromMake(
+        await requestWorkflow(getTarget(), {
+          payload: { ...request, mode: "render" },
+          signal,
+        }),
+      );
+
+      if (isAcceptedResult(result)) {
+        return { state: "running", externalId: result.executionId };
+      }
+
+      return { state: "succeeded", ...toVideo(request.topic, result) };
+    },
+    async status(job) {
+      // Scenario runs have no per-run result endpoint; callbacks report progress.
+      return { state: "running", externalId: job.externalId };
+    },
+    async cancel() {
+      // Make.com can't stop a single scenario run through its API, so the run
+      // finishes on Make's side and its callbacks are dropped by the app.
+    },
+    toVideo,
+  };
+}
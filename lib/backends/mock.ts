@@ -0,0 +1,110 @@
+import type { GenerationBackend } from "../backend";
+import { SAMPLE_VIDEO_URL } from "../demo";
+import { GenerateError } from "../errors";
+import { normalizeVideo } from "../webhook";
+import type { Scene, Storyboard, WorkflowRequest } from "../types";
+
+const DEFAULT_RENDER_MS = 12000;
+const POLL_INTERVAL_MS = 1000;
+
+type MockRender = { request: WorkflowRequest; startedAt: number };
+
+const globalStore = globalThis as typeof globalThis & {
+  __clipoMockRenders?: Map<string, MockRender>;
+};
+
+const renders = (globalStore.__clipoMockRenders ??= new Map<
+  string,
+  MockRender
+>());
+
+function getRenderTime() {
+  const time = Number(process.env.MOCK_RENDER_MS);
+  return Number.isFinite(time) && time >= 0 ? time : DEFAULT_RENDER_MS;
+}
+
+function mockStoryboard(request: WorkflowRequest): Storyboard {
+  if (request.scenes && request.scenes.length > 0) {
+    return { title: request.title ?? request.topic, scenes: request.scenes };
+  }
+
+  const duration = Math.round(request.durationSeconds / request.sceneCount);
+  const scenes: Scene[] = Array.from(
+    { length: request.sceneCount },
+    (_, index) => ({
+      sceneNumber: index + 1,
+      duration,
+      narration: `Placeholder narration for scene ${index + 1}.`,
+      keywords: ["sample", "footage"],
+      visualDescription: "Sample footage from the mock backend.",
+    }),
+  );
+
+  return { title: `Sample: ${request.topic}`, scenes };
+}
+
+/**
+ * An in-process stand-in that "renders" the bundled sample clip after
+ * `MOCK_RENDER_MS`. Its renders are flagged `simulated`.
+ */
+export function createMockBackend(): GenerationBackend {
+  const toVideo = (topic: string, result: unknown) => {
+    const { video, issues } = normalizeVideo(topic, result);
+    return { video: { ...video, simulated: true }, issues };
+  };
+
+  return {
+    name: "mock",
+    pollIntervalMs: POLL_INTERVAL_MS,
+    async script(request) {
+      return mockStoryboard(request);
+    },
+    async submit(request) {
+      const externalId = `mock-${crypto.randomUUID()}`;
+      renders.set(externalId, { request, startedAt: Date.now() });
+      return { state: "running", externalId, progress: 0 };
+    },
+    async status(job) {
+      const render = job.externalId ? renders.get(job.externalId) : undefined;
+
+      if (!render) {
+        throw new GenerateError("render_failed", {
+          detail: `Unknown mock render ${job.externalId}.`,
+        });
+      }
+
+      const renderTime = getRenderTime();
+      const elapsed = Date.now() - render.startedAt;
+
+      if (elapsed < renderTime) {
+        return {
+          state: "running",
+          externalId: job.externalId,
+          progress: Math.round((elapsed / renderTime) * 100),
+        };
+      }
+
+      renders.delete(job.externalId!);
+      const { title, scenes } = mockStoryboard(render.request);
+
+      return {
+        state: "succeeded",
+        externalId: job.externalId,
+        ...toVideo(job.topic, {
+          videoUrl: process.env.MOCK_VIDEO_URL || SAMPLE_VIDEO_URL,
+          title,
+          duration: scenes.reduce((sum, scene) => sum + scene.duration, 0),
+          renderId: job.externalId,
+          narration: scenes.map((scene) => scene.narration).join(" "),
+          scenes,
+        }),
+      };
+    },
+    async cancel(job) {
+      if (job.externalId) {
+        renders.delete(job.externalId);
+      }
+    },
+    toVideo,
+  };
+}
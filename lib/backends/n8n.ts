@@ -0,0 +1,58 @@
+import type { GenerationBackend } from "../backend";
+import {
+  callWebhook,
+  expectStoryboard,
+  isAcceptedResult,
+  normalizeVideo,
+  requestWorkflow,
+} from "../webhook";
+
+function getApiTarget(path: string) {
+  const base = process.env.N8N_API_URL;
+  return {
+    url: base && new URL(path, base).toString(),
+    setting: "N8N_API_URL",
+  };
+}
+
+/**
+ * The bundled n8n workflow. It either answers with the finished render or
+ * acknowledges the request and reports progress through job callbacks.
+ */
+export function createN8nBackend(): GenerationBackend {
+  return {
+    name: "n8n",
+    async script(request, signal) {
+      return expectStoryboard(
+        await callWebhook({ ...request, mode: "script" }, signal),
+      );
+    },
+    async submit(request, signal) {
+      const result = await callWebhook({ ...request, mode: "render" }, signal);
+
+      if (isAcceptedResult(result)) {
+        return { state: "running", externalId: result.executionId };
+      }
+
+      return { state: "succeeded", ...normalizeVideo(request.topic, result) };
+    },
+    async status(job) {
+      // Webhook executions can't be queried for their output; the workflow's
+      // callbacks move the job forward instead.
+      return { state: "running", externalId: job.externalId };
+    },
+    async cancel(job) {
+      const apiKey = process.env.N8N_API_KEY;
+
+      if (!job.externalId || !apiKey) {
+        return;
+      }
+
+      await requestWorkflow(
+        getApiTarget(`/api/v1/executions/${job.externalId}/stop`),
+        { headers: { "X-N8N-API-KEY": apiKey } },
+      );
+    },
+    toVideo: normalizeVideo,
+  };
+}
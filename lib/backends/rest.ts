@@ -0,0 +1,126 @@
+import type { BackendState, GenerationBackend } from "../backend";
+import { GenerateError } from "../errors";
+import { expectStoryboard, normalizeVideo, requestWorkflow } from "../webhook";
+
+const DEFAULT_POLL_INTERVAL_MS = 3000;
+
+/** A job as reported by the REST API. */
+type RestJob = {
+  id?: unknown;
+  status?: unknown;
+  progress?: unknown;
+  output?: unknown;
+  error?: unknown;
+};
+
+function getTarget(path: string) {
+  const base = process.env.REST_BACKEND_URL;
+  return {
+    url: base && `${base.replace(/\/+$/, "")}${path}`,
+    setting: "REST_BACKEND_URL",
+  };
+}
+
+function authHeaders(): Record<string, string> {
+  const token = process.env.REST_BACKEND_TOKEN;
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+function getPollInterval() {
+  const interval = Number(process.env.REST_BACKEND_POLL_MS);
+  return Number.isFinite(interval) && interval > 0
+    ? interval
+    : DEFAULT_POLL_INTERVAL_MS;
+}
+
+function toState(topic: string, input: unknown): BackendState {
+  const job = (
+    typeof input === "object" && input !== null ? input : {}
+  ) as RestJob;
+  const externalId = typeof job.id === "string" ? job.id : undefined;
+
+  switch (job.status) {
+    case "succeeded":
+      return {
+        state: "succeeded",
+        externalId,
+        ...normalizeVideo(topic, job.output),
+      };
+    case "failed":
+    case "cancelled":
+      throw new GenerateError("render_failed", {
+        detail:
+          typeof job.error === "string" ? job.error : `Job ${job.status}.`,
+      });
+    case "queued":
+    case "running":
+      return {
+        state: "running",
+        externalId,
+        progress: typeof job.progress === "number" ? job.progress : undefined,
+      };
+    default:
+      throw new GenerateError("invalid_response", {
+        message: "The job API returned an unknown job status.",
+        detail: JSON.stringify(input)?.slice(0, 2000),
+      });
+  }
+}
+
+/**
+ * A generic job API: `POST /jobs` starts a render, `GET /jobs/:id` reports
+ * `{ id, status, progress?, output?, error? }`, `DELETE /jobs/:id` cancels it
+ * and `POST /scripts` returns a storyboard. `output` uses the workflow's
+ * result contract.
+ */
+export function createRestBackend(): GenerationBackend {
+  return {
+    name: "rest",
+    pollIntervalMs: getPollInterval(),
+    async script(request, signal) {
+      return expectStoryboard(
+        await requestWorkflow(getTarget("/scripts"), {
+          payload: request,
+          headers: authHeaders(),
+          signal,
+        }),
+      );
+    },
+    async submit(request, signal) {
+      return toState(
+        request.topic,
+        await requestWorkflow(getTarget("/jobs"), {
+          payload: request,
+          headers: authHeaders(),
+          signal,
+        }),
+      );
+    },
+    async status(job, signal) {
+      if (!job.externalId) {
+        throw new GenerateError("invalid_response", {
+          message: "The job API did not return a job id.",
+        });
+      }
+
+      return toState(
+        job.topic,
+        await requestWorkflow(
+          getTarget(`/jobs/${encodeURIComponent(job.externalId)}`),
+          { method: "GET", headers: authHeaders(), signal },
+        ),
+      );
+    },
+    async cancel(job) {
+      if (!job.externalId) {
+        return;
+      }
+
+      await requestWorkflow(
+        getTarget(`/jobs/${encodeURIComponent(job.externalId)}`),
+        { method: "DELETE", headers: authHeaders() },
+      );
+    },
+    toVideo: normalizeVideo,
+  };
+}
@@ -0,0 +1,225 @@
+import {
+  type BriefOptions,
+  aspectRatioOptions,
+  captionStyleOptions,
+  languageOptions,
+  MAX_SCENES,
+  MIN_SCENES,
+  musicMoodOptions,
+  voiceStyleOptions,
+} from "./brief";
+import type { CampaignRow } from "./types";
+
+export const MAX_BATCH_ROWS = 100;
+
+/** A parsed line of batch input; rows with issues are not submitted. */
+export type BatchRow = CampaignRow & {
+  line: number;
+  issues: string[];
+};
+
+type Option = { value: string; label: string };
+
+type Column = {
+  field: keyof BriefOptions;
+  /** Header names accepted for this column, lowercased without spaces. */
+  headers: string[];
+  parse: (value: string) => BriefOptions[keyof BriefOptions] | undefined;
+};
+
+function byOption(options: Option[]) {
+  return (value: string) => {
+    const wanted = value.trim().toLowerCase();
+    return options.find(
+      (option) =>
+        option.value.toLowerCase() === wanted ||
+        option.label.toLowerCase() === wanted,
+    )?.value;
+  };
+}
+
+function byRange(min: number, max: number) {
+  return (value: string) => {
+    const number = Number(value);
+    return Number.isInteger(number) && number >= min && number <= max
+      ? number
+      : undefined;
+  };
+}
+
+const columns: Column[] = [
+  {
+    field: "aspectRatio",
+    headers: ["ratio", "aspectratio", "aspect_ratio", "format"],
+    parse: byOption(aspectRatioOptions),
+  },
+  {
+    field: "durationSeconds",
+    headers: ["duration", "durationseconds", "seconds", "length"],
+    parse: byRange(10, 180),
+  },
+  {
+    field: "sceneCount",
+    headers: ["scenes", "scenecount", "scene_count"],
+    parse: byRange(MIN_SCENES, MAX_SCENES),
+  },
+  {
+    field: "voiceStyle",
+    headers: ["voice", "voicestyle", "voice_style"],
+    parse: byOption(voiceStyleOptions),
+  },
+  {
+    field: "musicMood",
+    headers: ["music", "musicmood", "music_mood", "mood"],
+    parse: byOption(musicMoodOptions),
+  },
+  {
+    field: "captionStyle",
+    headers: ["captions", "captionstyle", "caption_style"],
+    parse: byOption(captionStyleOptions),
+  },
+  {
+    field: "language",
+    headers: ["language", "lang"],
+    parse: byOption(languageOptions),
+  },
+];
+
+const TOPIC_HEADERS = ["topic", "prompt", "brief", "idea"];
+
+/** Splits CSV text into rows of cells, honouring quoted fields. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[index + 1] === "\n") {
+        index += 1;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+function escapeCsv(cell: string) {
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
+
+export function toCsv(rows: string[][]) {
+  return `${rows.map((row) => row.map(escapeCsv).join(",")).join("\r\n")}\r\n`;
+}
+
+function normalizeHeader(header: string) {
+  return header.trim().toLowerCase().replace(/\s+/g, "");
+}
+
+function fromCsv(cells: string[][]): BatchRow[] {
+  const headers = cells[0].map(normalizeHeader);
+  const topicIndex = headers.findIndex((header) =>
+    TOPIC_HEADERS.includes(header),
+  );
+  const mapped = columns.flatMap((column) => {
+    const index = headers.findIndex((header) =>
+      column.headers.includes(header),
+    );
+    return index === -1 ? [] : [{ column, index }];
+  });
+
+  return cells.slice(1).flatMap((row, offset) => {
+    if (row.every((cell) => !cell.trim())) {
+      return [];
+    }
+
+    const issues: string[] = [];
+    const brief: Partial<Record<keyof BriefOptions, unknown>> = {};
+
+    mapped.forEach(({ column, index }) => {
+      const raw = row[index]?.trim();
+      if (!raw) {
+        return;
+      }
+      const value = column.parse(raw);
+      if (value === undefined) {
+        issues.push(`"${raw}" is not a valid ${column.headers[0]}.`);
+      } else {
+        brief[column.field] = value;
+      }
+    });
+
+    const topic = row[topicIndex]?.trim() ?? "";
+    if (!topic) {
+      issues.push("The topic is empty.");
+    }
+
+    return [
+      {
+        line: offset + 2,
+        topic,
+        brief: brief as Partial<BriefOptions>,
+        issues,
+      },
+    ];
+  });
+}
+
+/**
+ * Reads batch input: a CSV whose header row names a `topic` column (plus
+ * optional `ratio`, `voice`, `duration`, `scenes`, `music`, `captions` and
+ * `language` columns), or otherwise one topic per line.
+ */
+export function parseBatchInput(text: string): BatchRow[] {
+  const cells = parseCsv(text.trim());
+  const isCsv =
+    cells.length > 0 &&
+    cells[0].some((header) => TOPIC_HEADERS.includes(normalizeHeader(header)));
+
+  const rows = isCsv
+    ? fromCsv(cells)
+    : text.split(/\r?\n/).flatMap((line, index) => {
+        const topic = line.trim();
+        return topic ? [{ line: index + 1, topic, issues: [] }] : [];
+      });
+
+  return rows.map((row, index) =>
+    index < MAX_BATCH_ROWS
+      ? row
+      : {
+          ...row,
+          issues: [
+            ...row.issues,
+            `Batches are limited to ${MAX_BATCH_ROWS} topics.`,
+          ],
+        },
+  );
+}
@@ -0,0 +1,35 @@
+import type { BrandKit } from "./brand";
+
+const KITS_KEY = "clipo:brand-kits";
+const SELECTED_KEY = "clipo:brand-kit";
+
+/** Brand kits are kept in this browser, next to the render gallery. */
+export function loadBrandKits(): BrandKit[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(KITS_KEY) ?? "[]");
+    return Array.isArray(parsed)
+      ? parsed.filter(
+          (kit): kit is BrandKit =>
+            typeof kit?.id === "string" && typeof kit.name === "string",
+        )
+      : [];
+  } catch (error) {
+    return [];
+  }
+}
+
+export function saveBrandKits(kits: BrandKit[]) {
+  localStorage.setItem(KITS_KEY, JSON.stringify(kits));
+}
+
+export function loadSelectedKitId() {
+  return localStorage.getItem(SELECTED_KEY) ?? undefined;
+}
+
+export function saveSelectedKitId(id: string | undefined) {
+  if (id) {
+    localStorage.setItem(SELECTED_KEY, id);
+  } else {
+    localStorage.removeItem(SELECTED_KEY);
+  }
+}
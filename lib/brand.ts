@@ -0,0 +1,126 @@
+import { GenerateError } from "./errors";
+
+/** Branding applied on top of a render: overlays, colors and type. */
+export type BrandKit = {
+  id: string;
+  name: string;
+  logoUrl?: string;
+  primaryColor: string;
+  secondaryColor: string;
+  font: string;
+  introText?: string;
+  outroText?: string;
+  watermark?: string;
+  cta?: string;
+};
+
+export const fontOptions = [
+  "Montserrat",
+  "Inter",
+  "Poppins",
+  "Playfair Display",
+  "Roboto Slab",
+  "Bebas Neue",
+];
+
+export const brandTextLimits = {
+  name: 40,
+  introText: 80,
+  outroText: 80,
+  watermark: 40,
+  cta: 60,
+};
+
+export function createBrandKit(name = "New brand kit"): BrandKit {
+  return {
+    id: crypto.randomUUID(),
+    name,
+    primaryColor: "#ffffff",
+    secondaryColor: "#6366f1",
+    font: fontOptions[0],
+  };
+}
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+function readText(
+  value: unknown,
+  field: keyof typeof brandTextLimits,
+  problems: string[],
+) {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== "string") {
+    problems.push(`${field} must be text.`);
+    return undefined;
+  }
+
+  const text = value.trim();
+  if (text.length > brandTextLimits[field]) {
+    problems.push(
+      `${field} must be ${brandTextLimits[field]} characters or fewer.`,
+    );
+  }
+  return text || undefined;
+}
+
+/**
+ * Validates a brand kit sent by the client. Colors must be `#rrggbb` and the
+ * logo an https URL, because both go straight into the render template.
+ */
+export function parseBrandKit(input: unknown): BrandKit {
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    throw new GenerateError("invalid_request", {
+      message: "The brand kit must be an object.",
+    });
+  }
+
+  const value = input as Record<string, unknown>;
+  const problems: string[] = [];
+
+  const name = readText(value.name, "name", problems);
+  const colors = (["primaryColor", "secondaryColor"] as const).map((field) => {
+    const color = value[field];
+    if (typeof color !== "string" || !HEX_COLOR.test(color)) {
+      problems.push(`${field} must be a hex color like #1a2b3c.`);
+      return "";
+    }
+    return color.toLowerCase();
+  });
+
+  const font = typeof value.font === "string" ? value.font : "";
+  if (!fontOptions.includes(font)) {
+    problems.push(`font must be one of ${fontOptions.join(", ")}.`);
+  }
+
+  let logoUrl: string | undefined;
+  if (typeof value.logoUrl === "string" && value.logoUrl.trim()) {
+    logoUrl = value.logoUrl.trim();
+    if (!logoUrl.startsWith("https://")) {
+      problems.push("logoUrl must be an https URL.");
+    }
+  }
+
+  const kit: BrandKit = {
+    id: typeof value.id === "string" && value.id ? value.id : "custom",
+    name: name ?? "Brand kit",
+    logoUrl,
+    primaryColor: colors[0],
+    secondaryColor: colors[1],
+    font,
+    introText: readText(value.introText, "introText", problems),
+    outroText: readText(value.outroText, "outroText", problems),
+    watermark: readText(value.watermark, "watermark", problems),
+    cta: readText(value.cta, "cta", problems),
+  };
+
+  if (problems.length > 0) {
+    throw new GenerateError("invalid_request", {
+      message: "The brand kit has fields that need fixing.",
+      detail: problems.join("\n"),
+    });
+  }
+
+  return kit;
+}
@@ -0,0 +1,175 @@
+export type AspectRatio = "9:16" | "1:1" | "16:9";
+
+export type BriefOptions = {
+  aspectRatio: AspectRatio;
+  durationSeconds: number;
+  sceneCount: number;
+  voiceStyle: VoiceStyle;
+  musicMood: MusicMood;
+  captionStyle: CaptionStyle;
+  language: string;
+};
+
+type Option<T extends string> = { value: T; label: string };
+
+export const aspectRatioOptions: Array<Option<AspectRatio>> = [
+  { value: "9:16", label: "Vertical 9:16" },
+  { value: "1:1", label: "Square 1:1" },
+  { value: "16:9", label: "Landscape 16:9" },
+];
+
+export const durationOptions = [15, 30, 45, 60, 90];
+
+export const MIN_SCENES = 3;
+export const MAX_SCENES = 10;
+
+export type VoiceStyle = "narrator" | "energetic" | "calm" | "documentary";
+
+export const voiceStyleOptions: Array<
+  Option<VoiceStyle> & { description: string }
+> = [
+  {
+    value: "narrator",
+    label: "Warm narrator",
+    description:
+      "Professional, clear, and engaging narrator voice with a warm and friendly tone, suitable for educational content",
+  },
+  {
+    value: "energetic",
+    label: "Energetic host",
+    description:
+      "Upbeat, fast-paced social media host with high energy and a confident, punchy delivery",
+  },
+  {
+    value: "calm",
+    label: "Calm guide",
+    description:
+      "Soft, calm and reassuring voice with a slow, measured pace, like a meditation guide",
+  },
+  {
+    value: "documentary",
+    label: "Documentary",
+    description:
+      "Deep, authoritative documentary narrator with a cinematic, measured delivery",
+  },
+];
+
+export type MusicMood = "none" | "upbeat" | "cinematic" | "chill" | "dramatic";
+
+export const musicMoodOptions: Array<Option<MusicMood>> = [
+  { value: "none", label: "No preference" },
+  { value: "upbeat", label: "Upbeat" },
+  { value: "cinematic", label: "Cinematic" },
+  { value: "chill", label: "Chill" },
+  { value: "dramatic", label: "Dramatic" },
+];
+
+export type CaptionStyle = "bold" | "minimal" | "karaoke" | "none";
+
+export const captionStyleOptions: Array<Option<CaptionStyle>> = [
+  { value: "bold", label: "Bold centered" },
+  { value: "minimal", label: "Minimal lower third" },
+  { value: "karaoke", label: "Word-by-word" },
+  { value: "none", label: "No captions" },
+];
+
+export const languageOptions: Array<Option<string>> = [
+  { value: "en", label: "English" },
+  { value: "es", label: "Spanish" },
+  { value: "fr", label: "French" },
+  { value: "de", label: "German" },
+  { value: "pt", label: "Portuguese" },
+  { value: "hi", label: "Hindi" },
+  { value: "ja", label: "Japanese" },
+];
+
+export const defaultBrief: BriefOptions = {
+  aspectRatio: "9:16",
+  durationSeconds: 45,
+  sceneCount: 6,
+  voiceStyle: "narrator",
+  musicMood: "none",
+  captionStyle: "bold",
+  language: "en",
+};
+
+function pick<T extends string>(
+  options: Array<Option<T>>,
+  value: unknown,
+  fallback: T,
+): T {
+  return options.some((option) => option.value === value)
+    ? (value as T)
+    : fallback;
+}
+
+function clamp(value: unknown, min: number, max: number, fallback: number) {
+  const number = typeof value === "string" ? Number(value) : value;
+  return typeof number === "number" && Number.isFinite(number)
+    ? Math.min(max, Math.max(min, Math.round(number)))
+    : fallback;
+}
+
+/** Coerces untrusted input into a complete brief, filling gaps with defaults. */
+export function parseBriefOptions(input: unknown): BriefOptions {
+  const value = (
+    typeof input === "object" && input !== null ? input : {}
+  ) as Record<string, unknown>;
+
+  return {
+    aspectRatio: pick(
+      aspectRatioOptions,
+      value.aspectRatio,
+      defaultBrief.aspectRatio,
+    ),
+    durationSeconds: clamp(
+      value.durationSeconds,
+      10,
+      180,
+      defaultBrief.durationSeconds,
+    ),
+    sceneCount: clamp(
+      value.sceneCount,
+      MIN_SCENES,
+      MAX_SCENES,
+      defaultBrief.sceneCount,
+    ),
+    voiceStyle: pick(
+      voiceStyleOptions,
+      value.voiceStyle,
+      defaultBrief.voiceStyle,
+    ),
+    musicMood: pick(musicMoodOptions, value.musicMood, defaultBrief.musicMood),
+    captionStyle: pick(
+      captionStyleOptions,
+      value.captionStyle,
+      defaultBrief.captionStyle,
+    ),
+    language: pick(languageOptions, value.language, defaultBrief.language),
+  };
+}
+
+export function orientationFor(aspectRatio: AspectRatio) {
+  switch (aspectRatio) {
+    case "9:16":
+      return "portrait";
+    case "1:1":
+      return "square";
+    case "16:9":
+      return "landscape";
+  }
+}
+
+/** The flat fields sent to the workflow alongside `topic`. */
+export function toWorkflowBrief(brief: BriefOptions) {
+  return {
+    ...brief,
+    orientation: orientationFor(brief.aspectRatio),
+    voiceDescription:
+      voiceStyleOptions.find((option) => option.value === brief.voiceStyle)
+        ?.description ?? voiceStyleOptions[0].description,
+    languageName:
+      languageOptions.find((option) => option.value === brief.language)
+        ?.label ?? "English",
+  };
+}
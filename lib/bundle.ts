@@ -0,0 +1,224 @@
+import { toCsv } from "./batch";
+import { cuesForVideo, toSrt, toVtt } from "./captions";
+import { slugify } from "./download";
+import type { CampaignRef, GeneratedVideo } from "./types";
+import { createZip, type ZipEntry } from "./zip";
+
+export type BundleManifest = {
+  id: string;
+  prompt: string;
+  title?: string;
+  renderId?: string;
+  duration?: number;
+  width?: number;
+  height?: number;
+  createdAt: string;
+  simulated?: boolean;
+  brief?: GeneratedVideo["brief"];
+  brand?: GeneratedVideo["brand"];
+  video: { file?: string; url: string };
+  audio?: { file?: string; url?: string };
+  files: string[];
+};
+
+const audioExtensions: Record<string, string> = {
+  "audio/mpeg": "mp3",
+  "audio/mp3": "mp3",
+  "audio/wav": "wav",
+  "audio/x-wav": "wav",
+  "audio/ogg": "ogg",
+  "audio/aac": "aac",
+  "audio/mp4": "m4a",
+};
+
+function decodeDataUrl(url: string) {
+  const match = /^data:([^;,]*)(;base64)?,([\s\S]*)$/.exec(url);
+  if (!match) {
+    return null;
+  }
+
+  const [, type, base64, payload] = match;
+  if (!base64) {
+    return {
+      type,
+      data: new TextEncoder().encode(decodeURIComponent(payload)),
+    };
+  }
+
+  const binary = atob(payload);
+  const data = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index += 1) {
+    data[index] = binary.charCodeAt(index);
+  }
+  return { type, data };
+}
+
+async function fetchBytes(url: string) {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) {
+      return null;
+    }
+    return new Uint8Array(await response.arrayBuffer());
+  } catch {
+    // Most CDNs don't send CORS headers; the manifest keeps the URL instead.
+    return null;
+  }
+}
+
+export function toScriptMarkdown(video: GeneratedVideo) {
+  const lines = [`# ${video.title ?? video.prompt}`, "", `> ${video.prompt}`];
+
+  if (video.narration) {
+    lines.push("", "## Narration", "", video.narration);
+  }
+
+  [...(video.scenes ?? [])]
+    .sort((a, b) => a.sceneNumber - b.sceneNumber)
+    .forEach((scene) => {
+      lines.push(
+        "",
+        `## Scene ${scene.sceneNumber} (${scene.duration}s)`,
+        "",
+        scene.narration,
+        "",
+        `*Visual:* ${scene.visualDescription}`,
+      );
+      if (scene.keywords.length > 0) {
+        lines.push("", `*Keywords:* ${scene.keywords.join(", ")}`);
+      }
+    });
+
+  return `${lines.join("\n")}\n`;
+}
+
+async function bundleEntries(video: GeneratedVideo) {
+  const entries: ZipEntry[] = [];
+  const manifest: BundleManifest = {
+    id: video.id,
+    prompt: video.prompt,
+    title: video.title,
+    renderId: video.renderId,
+    duration: video.duration,
+    width: video.width,
+    height: video.height,
+    createdAt: new Date(video.createdAt).toISOString(),
+    simulated: video.simulated,
+    brief: video.brief,
+    brand: video.brand,
+    video: { url: video.url },
+    files: [],
+  };
+
+  const videoData = await fetchBytes(video.url);
+  if (videoData) {
+    entries.push({ name: "video.mp4", data: videoData });
+    manifest.video.file = "video.mp4";
+  }
+
+  if (video.audioUrl) {
+    const decoded = video.audioUrl.startsWith("data:")
+      ? decodeDataUrl(video.audioUrl)
+      : null;
+    const data = decoded?.data ?? (await fetchBytes(video.audioUrl));
+    const extension = audioExtensions[decoded?.type ?? ""] ?? "mp3";
+
+    manifest.audio = decoded ? {} : { url: video.audioUrl };
+    if (data) {
+      entries.push({ name: `narration.${extension}`, data });
+      manifest.audio.file = `narration.${extension}`;
+    }
+  }
+
+  const cues = cuesForVideo(video);
+  if (cues.length > 0) {
+    entries.push(
+      { name: "captions.srt", data: toSrt(cues) },
+      { name: "captions.vtt", data: toVtt(cues) },
+    );
+  }
+
+  if (video.scenes && video.scenes.length > 0) {
+    entries.push({
+      name: "script.json",
+      data: JSON.stringify(
+        {
+          title: video.title,
+          narration: video.narration,
+          scenes: video.scenes,
+        },
+        null,
+        2,
+      ),
+    });
+  }
+  entries.push({ name: "script.md", data: toScriptMarkdown(video) });
+
+  manifest.files = ["manifest.json", ...entries.map((entry) => entry.name)];
+  entries.unshift({
+    name: "manifest.json",
+    data: JSON.stringify(manifest, null, 2),
+  });
+
+  return entries;
+}
+
+/**
+ * Packs a render into a ZIP: the MP4 (or its URL when the host blocks
+ * cross-origin downloads), narration audio, captions, the scene script as
+ * JSON and Markdown, and a `manifest.json` describing the render.
+ */
+export async function buildBundle(video: GeneratedVideo) {
+  return createZip(await bundleEntries(video));
+}
+
+/**
+ * Packs every render of a campaign into one ZIP, one folder per render in
+ * the same layout as `buildBundle`, plus a `campaign.csv` index.
+ */
+export async function buildCampaignBundle(
+  campaign: CampaignRef,
+  videos: GeneratedVideo[],
+) {
+  const entries: ZipEntry[] = [];
+  const index = [
+    ["folder", "topic", "title", "url", "duration", "aspectRatio", "voice"],
+  ];
+
+  const ordered = [...videos].sort((a, b) => a.createdAt - b.createdAt);
+  for (const [position, video] of ordered.entries()) {
+    const folder = `${String(position + 1).padStart(2, "0")}-${slugify(
+      video.title ?? video.prompt,
+    )}`;
+    (await bundleEntries(video)).forEach((entry) =>
+      entries.push({ ...entry, name: `${folder}/${entry.name}` }),
+    );
+    index.push([
+      folder,
+      video.prompt,
+      video.title ?? "",
+      video.url,
+      video.duration?.toString() ?? "",
+      video.brief?.aspectRatio ?? "",
+      video.brief?.voiceStyle ?? "",
+    ]);
+  }
+
+  entries.unshift(
+    { name: "campaign.csv", data: toCsv(index) },
+    {
+      name: "campaign.json",
+      data: JSON.stringify(
+        {
+          ...campaign,
+          exportedAt: new Date().toISOString(),
+          renders: ordered.length,
+        },
+        null,
+        2,
+      ),
+    },
+  );
+
+  return createZip(entries);
+}
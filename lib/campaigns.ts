@@ -0,0 +1,142 @@
+import { type JobInput, createJob, getJob, runJob } from "./jobs";
+import { hasFreeSlot } from "./quotas";
+import type {
+  Campaign,
+  CampaignProgress,
+  CampaignResponse,
+  GenerationJob,
+} from "./types";
+
+export const DEFAULT_CONCURRENCY = 2;
+export const MAX_CONCURRENCY = 5;
+const SLOT_POLL_MS = 2000;
+
+// Keep the store on globalThis so dev-mode module reloads don't drop campaigns.
+const globalStore = globalThis as typeof globalThis & {
+  __clipoCampaigns?: Map<string, Campaign>;
+};
+
+const campaigns = (globalStore.__clipoCampaigns ??= new Map<
+  string,
+  Campaign
+>());
+
+export type CampaignInput = {
+  name: string;
+  concurrency: number;
+  jobs: JobInput[];
+  ownerId?: string;
+  workspaceId?: string;
+};
+
+/** Queues one job per row; `runCampaign` starts them. */
+export function createCampaign(input: CampaignInput): Campaign {
+  const id = crypto.randomUUID();
+  const ref = { id, name: input.name };
+  const { ownerId, workspaceId } = input;
+  const jobIds = input.jobs.map(
+    (job) => createJob({ ...job, campaign: ref, ownerId, workspaceId }).id,
+  );
+  const campaign: Campaign = {
+    ...ref,
+    createdAt: Date.now(),
+    concurrency: input.concurrency,
+    jobIds,
+    ownerId,
+    workspaceId,
+  };
+
+  campaigns.set(id, campaign);
+  return campaign;
+}
+
+function summarize(jobs: GenerationJob[]): CampaignProgress {
+  const progress: CampaignProgress = {
+    total: jobs.length,
+    queued: 0,
+    running: 0,
+    succeeded: 0,
+    failed: 0,
+    cancelled: 0,
+    percent: 0,
+  };
+
+  jobs.forEach((job) => {
+    progress[job.status] += 1;
+  });
+
+  // Cancelled and failed jobs count as done so the bar can reach 100%.
+  const done = jobs.reduce(
+    (sum, job) =>
+      sum +
+      (job.status === "succeeded" ||
+      job.status === "failed" ||
+      job.status === "cancelled"
+        ? 100
+        : job.progress),
+    0,
+  );
+  progress.percent = jobs.length > 0 ? Math.round(done / jobs.length) : 100;
+
+  return progress;
+}
+
+export function getCampaign(id: string): CampaignResponse | undefined {
+  const campaign = campaigns.get(id);
+
+  if (!campaign) {
+    return undefined;
+  }
+
+  const jobs = campaign.jobIds.flatMap((jobId) => {
+    const job = getJob(jobId);
+    return job ? [job] : [];
+  });
+
+  return { campaign, jobs, progress: summarize(jobs) };
+}
+
+/**
+ * Renders a campaign's jobs in order, at most `concurrency` at a time. Jobs
+ * cancelled while they wait are skipped.
+ */
+export async function runCampaign(
+  id: string,
+  callbackUrlFor: (jobId: string) => string,
+) {
+  const campaign = campaigns.get(id);
+
+  if (!campaign) {
+    return;
+  }
+
+  let next = 0;
+  const worker = async () => {
+    while (next < campaign.jobIds.length) {
+      const jobId = campaign.jobIds[next];
+      next += 1;
+
+      const job = getJob(jobId);
+      if (job?.status !== "queued" || job.attempts.length > 0) {
+        continue;
+      }
+
+      // Rows wait for a concurrent slot, so no campaign runs more renders at
+      // once than its owner's and workspace's quotas allow.
+      while (getJob(jobId)?.status === "queued" && !hasFreeSlot(job)) {
+        await new Promise((resolve) => setTimeout(resolve, SLOT_POLL_MS));
+      }
+
+      if (getJob(jobId)?.status === "queued") {
+        await runJob(jobId, callbackUrlFor(jobId));
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from(
+      { length: Math.min(campaign.concurrency, campaign.jobIds.length) },
+      worker,
+    ),
+  );
+}
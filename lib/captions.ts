@@ -0,0 +1,138 @@
+import type { GeneratedVideo, Scene } from "./types";
+
+export type CaptionCue = {
+  index: number;
+  start: number;
+  end: number;
+  text: string;
+};
+
+export type CueOptions = {
+  /** Split each scene into cues of at most this many words. */
+  maxWordsPerCue?: number;
+  /** Scale cue timings so the last cue ends at the render's real duration. */
+  totalDuration?: number;
+};
+
+function splitWords(text: string, maxWords: number) {
+  const words = text.split(/\s+/).filter(Boolean);
+  const chunks: string[][] = [];
+
+  for (let index = 0; index < words.length; index += maxWords) {
+    chunks.push(words.slice(index, index + maxWords));
+  }
+
+  return chunks;
+}
+
+export type SceneTiming = {
+  scene: Scene;
+  start: number;
+  end: number;
+};
+
+/**
+ * When each scene plays: back to back in `sceneNumber` order, scaled so the
+ * last one ends at `totalDuration` when the render's real length is known.
+ */
+export function sceneTimings(
+  scenes: Scene[],
+  totalDuration?: number,
+): SceneTiming[] {
+  const ordered = [...scenes].sort((a, b) => a.sceneNumber - b.sceneNumber);
+  const scriptDuration = ordered.reduce(
+    (sum, scene) => sum + scene.duration,
+    0,
+  );
+  const scale =
+    totalDuration && scriptDuration > 0 ? totalDuration / scriptDuration : 1;
+  let cursor = 0;
+
+  return ordered.map((scene) => {
+    const start = cursor;
+    cursor += Math.max(0, scene.duration * scale);
+    return { scene, start, end: cursor };
+  });
+}
+
+/**
+ * Builds timed cues from scene timings. With `maxWordsPerCue`, each scene's
+ * time is shared between its chunks in proportion to their word count.
+ */
+export function buildCues(scenes: Scene[], options: CueOptions = {}) {
+  const cues: CaptionCue[] = [];
+
+  sceneTimings(scenes, options.totalDuration).forEach(
+    ({ scene, start: sceneStart, end: sceneEnd }) => {
+      const duration = sceneEnd - sceneStart;
+      const narration = scene.narration.trim();
+
+      if (!narration || duration <= 0) {
+        return;
+      }
+
+      const chunks = options.maxWordsPerCue
+        ? splitWords(narration, options.maxWordsPerCue)
+        : [narration.split(/\s+/)];
+      const wordCount = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+      let start = sceneStart;
+
+      chunks.forEach((chunk) => {
+        const end = start + (duration * chunk.length) / wordCount;
+        cues.push({
+          index: cues.length + 1,
+          start,
+          end,
+          text: chunk.join(" "),
+        });
+        start = end;
+      });
+    },
+  );
+
+  return cues;
+}
+
+function formatTimestamp(seconds: number, separator: "," | ".") {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, length = 2) =>
+    String(value).padStart(length, "0");
+
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+}
+
+export function toSrt(cues: CaptionCue[]) {
+  return cues
+    .map(
+      (cue) =>
+        `${cue.index}\n${formatTimestamp(cue.start, ",")} --> ${formatTimestamp(cue.end, ",")}\n${cue.text}\n`,
+    )
+    .join("\n");
+}
+
+export function toVtt(cues: CaptionCue[]) {
+  const body = cues
+    .map(
+      (cue) =>
+        `${cue.index}\n${formatTimestamp(cue.start, ".")} --> ${formatTimestamp(cue.end, ".")}\n${cue.text}\n`,
+    )
+    .join("\n");
+
+  return `WEBVTT\n\n${body}`;
+}
+
+/** Cue options for a render: shorter cues for word-by-word caption styles. */
+export function cuesForVideo(video: GeneratedVideo) {
+  if (!video.scenes || video.scenes.length === 0) {
+    return [];
+  }
+
+  return buildCues(video.scenes, {
+    maxWordsPerCue: video.brief?.captionStyle === "karaoke" ? 3 : 8,
+    totalDuration: video.duration,
+  });
+}
@@ -0,0 +1,273 @@
+import { progressForEvent } from "./progress";
+import type {
+  GeneratedVideo,
+  JobEvent,
+  JobStage,
+  Scene,
+  Storyboard,
+} from "./types";
+
+export const SAMPLE_VIDEO_URL = encodeURI(
+  "/This is how I type faster while having fun..mp4",
+);
+
+const SAMPLE_LIBRARY_URL =
+  "https://commondatastorage.googleapis.com/gtv-videos-bucket/sample";
+
+/** A canned render that demo mode plays back instead of calling the backend. */
+export type DemoFixture = {
+  id: string;
+  /** Prompts matching any pattern get this fixture; the first match wins. */
+  patterns: RegExp[];
+  /** What the sample clip is actually about, shown instead of the user's prompt. */
+  prompt: string;
+  title: string;
+  videoUrl: string;
+  thumbnailUrl?: string;
+  /** The clip's real size, when it isn't vertical. */
+  width?: number;
+  height?: number;
+  /** How long the simulated render takes at 1× speed. */
+  renderMs: number;
+  scenes: Scene[];
+};
+
+export const demoFixtures: DemoFixture[] = [
+  {
+    id: "typing",
+    patterns: [/\btyp(e|es|ing)\b/i, /\bkeyboard/i, /\bwpm\b/i],
+    prompt: "Create a Short video on how to type fast",
+    title: "How I type faster while having fun",
+    videoUrl: SAMPLE_VIDEO_URL,
+    renderMs: 36000,
+    scenes: [
+      {
+        sceneNumber: 1,
+        duration: 6,
+        narration: "Want to type faster without grinding through drills?",
+        keywords: ["keyboard", "typing"],
+        visualDescription: "Close-up of hands resting on a keyboard.",
+      },
+      {
+        sceneNumber: 2,
+        duration: 8,
+        narration:
+          "Keep your fingers on the home row and let them return there.",
+        keywords: ["home row", "fingers"],
+        visualDescription: "Fingers hovering over the home row keys.",
+      },
+      {
+        sceneNumber: 3,
+        duration: 8,
+        narration: "Turn practice into a game and race your own best score.",
+        keywords: ["typing game", "score"],
+        visualDescription: "A typing game counting words per minute.",
+      },
+      {
+        sceneNumber: 4,
+        duration: 6,
+        narration: "A few fun minutes a day adds up faster than you think.",
+        keywords: ["progress", "desk"],
+        visualDescription: "Typing quickly at a tidy desk.",
+      },
+    ],
+  },
+  {
+    id: "travel",
+    patterns: [
+      /\btravel(s|led|ling|ler|lers)?\b/i,
+      // Road trips have their own fixture.
+      /(?<!road ?)\btrips?\b/i,
+      /\b(vacation|holiday|getaway|escape)s?\b/i,
+      /\b(adventures?|hik(e|es|ing)|beach(es)?|mountains?)\b/i,
+    ],
+    prompt: "Create a short video on planning a weekend escape",
+    title: "Plan a weekend escape",
+    videoUrl: `${SAMPLE_LIBRARY_URL}/ForBiggerEscapes.mp4`,
+    thumbnailUrl: `${SAMPLE_LIBRARY_URL}/images/ForBiggerEscapes.jpg`,
+    width: 1280,
+    height: 720,
+    renderMs: 24000,
+    scenes: [
+      {
+        sceneNumber: 1,
+        duration: 5,
+        narration: "Two free days are all it takes to get away.",
+        keywords: ["weekend", "getaway"],
+        visualDescription: "Wide shot of an open landscape at sunrise.",
+      },
+      {
+        sceneNumber: 2,
+        duration: 5,
+        narration: "Pick somewhere within a few hours and pack light.",
+        keywords: ["backpack", "travel"],
+        visualDescription: "Friends setting off with small bags.",
+      },
+      {
+        sceneNumber: 3,
+        duration: 5,
+        narration: "Leave the plan loose and say yes to the detours.",
+        keywords: ["adventure", "outdoors"],
+        visualDescription: "Exploring a scenic spot together.",
+      },
+    ],
+  },
+  {
+    id: "road-trip",
+    patterns: [
+      /\bcars?\b/i,
+      // Not "Google Drive" and the like.
+      /(?<!google )\bdriv(e|es|er|ers|ing)\b/i,
+      /\broad ?trips?\b/i,
+      /\bjoyrides?\b/i,
+    ],
+    prompt: "Create a short video on getting ready for a road trip",
+    title: "Road-trip ready in three checks",
+    videoUrl: `${SAMPLE_LIBRARY_URL}/ForBiggerJoyrides.mp4`,
+    thumbnailUrl: `${SAMPLE_LIBRARY_URL}/images/ForBiggerJoyrides.jpg`,
+    width: 1280,
+    height: 720,
+    renderMs: 24000,
+    scenes: [
+      {
+        sceneNumber: 1,
+        duration: 5,
+        narration: "Before a long drive, check the tyres and the fluids.",
+        keywords: ["car", "tyres"],
+        visualDescription: "A car parked and ready for the road.",
+      },
+      {
+        sceneNumber: 2,
+        duration: 5,
+        narration: "Download your maps and playlists while you have signal.",
+        keywords: ["playlist", "navigation"],
+        visualDescription: "Passengers settling in for the drive.",
+      },
+      {
+        sceneNumber: 3,
+        duration: 5,
+        narration: "Then roll the windows down and enjoy the ride.",
+        keywords: ["open road", "driving"],
+        visualDescription: "The car cruising down an open road.",
+      },
+    ],
+  },
+  {
+    id: "party",
+    patterns: [
+      /\bpart(y|ies)\b/i,
+      /\bfriends?\b/i,
+      /\bgame ?nights?\b/i,
+      /\b(celebrat(e|es|ion|ions|ing)|hangouts?)\b/i,
+    ],
+    prompt: "Create a short video on hosting a fun night in with friends",
+    title: "Host a night in your friends will remember",
+    videoUrl: `${SAMPLE_LIBRARY_URL}/ForBiggerFun.mp4`,
+    thumbnailUrl: `${SAMPLE_LIBRARY_URL}/images/ForBiggerFun.jpg`,
+    width: 1280,
+    height: 720,
+    renderMs: 30000,
+    scenes: [
+      {
+        sceneNumber: 1,
+        duration: 20,
+        narration: "A great night in starts with one simple plan.",
+        keywords: ["friends", "living room"],
+        visualDescription: "Friends gathering on a sofa.",
+      },
+      {
+        sceneNumber: 2,
+        duration: 20,
+        narration: "Put the big screen to work with a game everyone can join.",
+        keywords: ["game night", "tv"],
+        visualDescription: "A game playing on the living-room TV.",
+      },
+      {
+        sceneNumber: 3,
+        duration: 20,
+        narration: "Keep the snacks easy so the host gets to play too.",
+        keywords: ["snacks", "laughter"],
+        visualDescription: "Everyone laughing together around the screen.",
+      },
+    ],
+  },
+];
+
+export const demoSpeedOptions = [0.5, 1, 2, 4];
+
+/** The fixture for `prompt`, or the first one when nothing matches. */
+export function matchFixture(prompt: string) {
+  const fixture = demoFixtures.find((candidate) =>
+    candidate.patterns.some((pattern) => pattern.test(prompt)),
+  );
+
+  return { fixture: fixture ?? demoFixtures[0], matched: Boolean(fixture) };
+}
+
+export function fixtureStoryboard(fixture: DemoFixture): Storyboard {
+  return { title: fixture.title, scenes: fixture.scenes };
+}
+
+export type DemoStep = {
+  /** Milliseconds after the run starts. */
+  at: number;
+  event: Omit<JobEvent, "at">;
+  stage: JobStage;
+  progress: number;
+};
+
+/**
+ * The milestones a real render of these scenes would report, spread over the
+ * fixture's render time and scaled by `speed`.
+ */
+export function demoTimeline(
+  fixture: DemoFixture,
+  scenes: Scene[] = fixture.scenes,
+  speed = 1,
+): DemoStep[] {
+  const totalMs = fixture.renderMs / speed;
+  const totalScenes = scenes.length;
+  const events: Array<[number, Omit<JobEvent, "at">]> = [
+    [0.12, { type: "script_parsed", totalScenes }],
+    [0.25, { type: "voiceover_ready" }],
+    ...scenes.map((_, index): [number, Omit<JobEvent, "at">] => [
+      0.25 + (0.4 * (index + 1)) / totalScenes,
+      { type: "clip_fetched", sceneNumber: index + 1, totalScenes },
+    ]),
+    [0.7, { type: "render_submitted", renderId: `demo-${fixture.id}` }],
+    [1, { type: "render_succeeded", renderId: `demo-${fixture.id}` }],
+  ];
+
+  return events.map(([share, event]) => {
+    const { stage, progress } =
+      event.type === "render_succeeded"
+        ? { stage: "delivered" as const, progress: 100 }
+        : progressForEvent({ stage: "received", progress: 0 }, event);
+    return { at: Math.round(share * totalMs), event, stage, progress };
+  });
+}
+
+/**
+ * The gallery entry for a finished demo run, labelled as simulated. It keeps
+ * the fixture's own scenes, even after an edited storyboard, so the
+ * transcript and captions match the clip that plays.
+ */
+export function fixtureVideo(fixture: DemoFixture): GeneratedVideo {
+  const { scenes } = fixture;
+
+  return {
+    id: crypto.randomUUID(),
+    prompt: fixture.prompt,
+    title: fixture.title,
+    url: fixture.videoUrl,
+    thumbnailUrl: fixture.thumbnailUrl,
+    width: fixture.width,
+    height: fixture.height,
+    createdAt: Date.now(),
+    duration: scenes.reduce((sum, scene) => sum + scene.duration, 0),
+    renderId: `demo-${fixture.id}`,
+    narration: scenes.map((scene) => scene.narration).join(" "),
+    scenes,
+    simulated: true,
+  };
+}
@@ -0,0 +1,168 @@
+export type GenerateErrorCode =
+  | "invalid_request"
+  | "configuration"
+  | "network"
+  | "timeout"
+  | "upstream_http"
+  | "invalid_response"
+  | "render_failed"
+  | "rate_limited"
+  | "unauthorized"
+  | "unauthenticated"
+  | "forbidden"
+  | "internal";
+
+export type GenerateErrorInfo = {
+  code: GenerateErrorCode;
+  message: string;
+  retryable: boolean;
+  retryAfterSeconds?: number;
+  upstreamStatus?: number;
+  detail?: string;
+};
+
+type ErrorDescription = {
+  title: string;
+  message: string;
+  retryHint: string;
+  retryable: boolean;
+  status: number;
+};
+
+export const errorCatalog: Record<GenerateErrorCode, ErrorDescription> = {
+  invalid_request: {
+    title: "Brief needs a tweak",
+    message: "The request was missing something we need.",
+    retryHint: "Fix the brief and submit it again.",
+    retryable: false,
+    status: 400,
+  },
+  configuration: {
+    title: "Server not configured",
+    message: "The server is missing a required setting.",
+    retryHint:
+      "Set the environment variable named in the details, then try again.",
+    retryable: false,
+    status: 503,
+  },
+  network: {
+    title: "Workflow unreachable",
+    message: "We couldn't reach the video workflow.",
+    retryHint: "Check that the workflow is running, then retry.",
+    retryable: true,
+    status: 502,
+  },
+  timeout: {
+    title: "Workflow timed out",
+    message: "The video workflow took too long to answer.",
+    retryHint: "Retry in a moment; long renders can exceed the time limit.",
+    retryable: true,
+    status: 504,
+  },
+  upstream_http: {
+    title: "Workflow returned an error",
+    message: "The video workflow answered with an error status.",
+    retryHint: "Retry shortly. If it keeps failing, check the workflow logs.",
+    retryable: true,
+    status: 502,
+  },
+  invalid_response: {
+    title: "Unexpected workflow response",
+    message: "The workflow finished but its response wasn't usable.",
+    retryHint: "Check the Respond to Webhook node returns a videoUrl.",
+    retryable: false,
+    status: 502,
+  },
+  render_failed: {
+    title: "Render failed",
+    message: "The video engine couldn't render this clip.",
+    retryHint: "Retry, or adjust the brief if it fails again.",
+    retryable: true,
+    status: 502,
+  },
+  rate_limited: {
+    title: "Rate limited",
+    message: "Too many renders are running right now.",
+    retryHint: "Wait for the limit to reset before retrying.",
+    retryable: true,
+    status: 429,
+  },
+  unauthorized: {
+    title: "Signature rejected",
+    message: "The message wasn't signed with the shared secret.",
+    retryHint:
+      "Check that the app and the workflow share the same WEBHOOK_SIGNING_SECRET and that their clocks agree.",
+    retryable: false,
+    status: 401,
+  },
+  unauthenticated: {
+    title: "Sign in required",
+    message: "Sign in to use this workspace.",
+    retryHint: "Sign in, then try again.",
+    retryable: false,
+    status: 401,
+  },
+  forbidden: {
+    title: "Not allowed",
+    message: "Your role in this workspace doesn't allow that.",
+    retryHint: "Ask a workspace owner or admin for access.",
+    retryable: false,
+    status: 403,
+  },
+  internal: {
+    title: "Something went wrong",
+    message: "The app hit an unexpected error.",
+    retryHint: "Try again. If it keeps failing, check the server logs.",
+    retryable: false,
+    status: 500,
+  },
+};
+
+export class GenerateError extends Error {
+  readonly code: GenerateErrorCode;
+  readonly status: number;
+  readonly retryAfterSeconds?: number;
+  readonly upstreamStatus?: number;
+  readonly detail?: string;
+
+  constructor(
+    code: GenerateErrorCode,
+    options: {
+      message?: string;
+      retryAfterSeconds?: number;
+      upstreamStatus?: number;
+      detail?: string;
+    } = {},
+  ) {
+    super(options.message ?? errorCatalog[code].message);
+    this.name = "GenerateError";
+    this.code = code;
+    this.status = errorCatalog[code].status;
+    this.retryAfterSeconds = options.retryAfterSeconds;
+    this.upstreamStatus = options.upstreamStatus;
+    this.detail = options.detail;
+  }
+
+  toInfo(): GenerateErrorInfo {
+    return {
+      code: this.code,
+      message: this.message,
+      retryable: errorCatalog[this.code].retryable,
+      retryAfterSeconds: this.retryAfterSeconds,
+      upstreamStatus: this.upstreamStatus,
+      detail: this.detail,
+    };
+  }
+}
+
+export function toGenerateError(error: unknown) {
+  if (error instanceof GenerateError) {
+    return error;
+  }
+
+  // Bugs on our side aren't retried: each retry would be another paid render.
+  return new GenerateError("internal", {
+    message: "Unexpected error while generating the video.",
+    detail: error instanceof Error ? error.message : String(error),
+  });
+}
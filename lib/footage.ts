@@ -0,0 +1,115 @@
+import type { AspectRatio } from "./brief";
+import { orientationFor } from "./brief";
+import { GenerateError } from "./errors";
+import type { FootageCandidate } from "./types";
+
+const PEXELS_SEARCH_URL = "https://api.pexels.com/videos/search";
+
+type PexelsVideoFile = {
+  link: string;
+  quality: string | null;
+  width: number;
+  height: number;
+};
+
+type PexelsVideo = {
+  id: number;
+  url: string;
+  image: string;
+  duration: number;
+  user?: { name?: string };
+  video_files: PexelsVideoFile[];
+};
+
+function matchesOrientation(file: PexelsVideoFile, aspectRatio: AspectRatio) {
+  switch (aspectRatio) {
+    case "9:16":
+      return file.width < file.height;
+    case "1:1":
+      return file.width === file.height;
+    case "16:9":
+      return file.width > file.height;
+  }
+}
+
+// Mirrors the file choice in the workflow's "Prepare Creatomate Data" node.
+function pickFile(video: PexelsVideo, aspectRatio: AspectRatio) {
+  const files = video.video_files ?? [];
+  return (
+    files.find(
+      (file) => file.quality === "hd" && matchesOrientation(file, aspectRatio),
+    ) ??
+    files.find((file) => file.quality === "hd") ??
+    files[0]
+  );
+}
+
+export async function searchFootage(
+  query: string,
+  aspectRatio: AspectRatio,
+  perPage = 6,
+): Promise<FootageCandidate[]> {
+  const apiKey = process.env.PEXELS_API_KEY;
+
+  if (!apiKey) {
+    throw new GenerateError("configuration", {
+      detail: "PEXELS_API_KEY is not set.",
+    });
+  }
+
+  const url = new URL(PEXELS_SEARCH_URL);
+  url.searchParams.set("query", query);
+  url.searchParams.set("per_page", String(perPage));
+  url.searchParams.set("orientation", orientationFor(aspectRatio));
+
+  let response: Response;
+
+  try {
+    response = await fetch(url, {
+      headers: { Authorization: apiKey },
+      next: { revalidate: 3600 },
+    });
+  } catch (error) {
+    throw new GenerateError("network", {
+      message: "We couldn't reach the stock footage library.",
+      detail: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  if (response.status === 429) {
+    throw new GenerateError("rate_limited", {
+      message: "The stock footage library is rate limiting searches.",
+      upstreamStatus: response.status,
+    });
+  }
+
+  if (!response.ok) {
+    throw new GenerateError("upstream_http", {
+      message: `The stock footage library answered with HTTP ${response.status}.`,
+      upstreamStatus: response.status,
+      detail: (await response.text()).slice(0, 2000) || undefined,
+    });
+  }
+
+  const { videos = [] } = (await response.json()) as {
+    videos?: PexelsVideo[];
+  };
+
+  return videos.flatMap((video) => {
+    const file = pickFile(video, aspectRatio);
+    return file
+      ? [
+          {
+            id: String(video.id),
+            videoUrl: file.link,
+            previewImageUrl: video.image,
+            width: file.width,
+            height: file.height,
+            duration: video.duration,
+            author: video.user?.name,
+            sourceUrl: video.url,
+          },
+        ]
+      : [];
+  });
+}
@@ -0,0 +1,176 @@
+import { type AspectRatio, aspectRatioOptions } from "./brief";
+import type { GeneratedVideo } from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type DateRange = "any" | "today" | "week" | "month";
+export type SourceFilter = "all" | "real" | "simulated";
+export type GallerySort =
+  "newest" | "oldest" | "longest" | "shortest" | "title";
+
+export type GalleryFilters = {
+  query: string;
+  ratio: AspectRatio | "all";
+  date: DateRange;
+  /** A campaign id, "none" for single renders, or "all". */
+  campaign: string;
+  source: SourceFilter;
+  sort: GallerySort;
+};
+
+export const defaultGalleryFilters: GalleryFilters = {
+  query: "",
+  ratio: "all",
+  date: "any",
+  campaign: "all",
+  source: "all",
+  sort: "newest",
+};
+
+export const dateRangeOptions: Array<{ value: DateRange; label: string }> = [
+  { value: "any", label: "Any time" },
+  { value: "today", label: "Today" },
+  { value: "week", label: "Last 7 days" },
+  { value: "month", label: "Last 30 days" },
+];
+
+export const sourceOptions: Array<{ value: SourceFilter; label: string }> = [
+  { value: "all", label: "Real and simulated" },
+  { value: "real", label: "Real renders" },
+  { value: "simulated", label: "Simulated" },
+];
+
+export const sortOptions: Array<{ value: GallerySort; label: string }> = [
+  { value: "newest", label: "Newest first" },
+  { value: "oldest", label: "Oldest first" },
+  { value: "longest", label: "Longest first" },
+  { value: "shortest", label: "Shortest first" },
+  { value: "title", label: "Title A–Z" },
+];
+
+/**
+ * The closest supported ratio to the render's real dimensions, falling back
+ * to the ratio it was briefed with.
+ */
+export function videoAspectRatio(video: GeneratedVideo): AspectRatio {
+  if (video.width && video.height) {
+    const ratio = video.width / video.height;
+    return aspectRatioOptions.reduce((best, option) => {
+      const [w, h] = option.value.split(":").map(Number);
+      const [bw, bh] = best.split(":").map(Number);
+      return Math.abs(Math.log(ratio / (w / h))) <
+        Math.abs(Math.log(ratio / (bw / bh)))
+        ? option.value
+        : best;
+    }, aspectRatioOptions[0].value);
+  }
+  return video.brief?.aspectRatio ?? "9:16";
+}
+
+/** A CSS `aspect-ratio` that keeps the player the shape of the render. */
+export function playerAspectRatio(video: GeneratedVideo) {
+  return video.width && video.height
+    ? `${video.width} / ${video.height}`
+    : videoAspectRatio(video).replace(":", " / ");
+}
+
+/**
+ * The dimensions and duration a loaded player reports, when they differ from
+ * what the render has stored.
+ */
+export function measuredPatch(
+  video: GeneratedVideo,
+  media: HTMLVideoElement,
+): Pick<GeneratedVideo, "width" | "height" | "duration"> | undefined {
+  const { videoWidth: width, videoHeight: height } = media;
+  const duration = Number.isFinite(media.duration) ? media.duration : undefined;
+
+  const sizeChanged =
+    width > 0 &&
+    height > 0 &&
+    (width !== video.width || height !== video.height);
+  const durationChanged =
+    duration !== undefined &&
+    (video.duration === undefined || Math.abs(duration - video.duration) > 0.5);
+
+  if (!sizeChanged && !durationChanged) {
+    return undefined;
+  }
+
+  return {
+    width: sizeChanged ? width : video.width,
+    height: sizeChanged ? height : video.height,
+    duration: durationChanged ? Math.round(duration * 10) / 10 : video.duration,
+  };
+}
+
+function startOf(range: DateRange, now: number) {
+  switch (range) {
+    case "any":
+      return 0;
+    case "today": {
+      const today = new Date(now);
+      today.setHours(0, 0, 0, 0);
+      return today.getTime();
+    }
+    case "week":
+      return now - 7 * DAY_MS;
+    case "month":
+      return now - 30 * DAY_MS;
+  }
+}
+
+function compare(sort: GallerySort) {
+  return (a: GeneratedVideo, b: GeneratedVideo) => {
+    switch (sort) {
+      case "newest":
+        return b.createdAt - a.createdAt;
+      case "oldest":
+        return a.createdAt - b.createdAt;
+      case "longest":
+        return (b.duration ?? 0) - (a.duration ?? 0);
+      case "shortest":
+        return (a.duration ?? Infinity) - (b.duration ?? Infinity);
+      case "title":
+        return (a.title ?? a.prompt).localeCompare(b.title ?? b.prompt);
+    }
+  };
+}
+
+/** The renders matching `filters`, pinned first, then in the chosen order. */
+export function filterGallery(
+  videos: GeneratedVideo[],
+  filters: GalleryFilters,
+  now = Date.now(),
+) {
+  const terms = filters.query.toLowerCase().split(/\s+/).filter(Boolean);
+  const since = startOf(filters.date, now);
+  const order = compare(filters.sort);
+
+  return videos
+    .filter((video) => {
+      const text = `${video.title ?? ""} ${video.prompt}`.toLowerCase();
+      return (
+        terms.every((term) => text.includes(term)) &&
+        (filters.ratio === "all" ||
+          videoAspectRatio(video) === filters.ratio) &&
+        video.createdAt >= since &&
+        (filters.campaign === "all" ||
+          (filters.campaign === "none"
+            ? !video.campaign
+            : video.campaign?.id === filters.campaign)) &&
+        (filters.source === "all" ||
+          (filters.source === "simulated") === (video.simulated ?? false))
+      );
+    })
+    .sort(
+      (a, b) =>
+        Number(b.pinned ?? false) - Number(a.pinned ?? false) || order(a, b),
+    );
+}
+
+export function isFiltered(filters: GalleryFilters) {
+  return (Object.keys(defaultGalleryFilters) as Array<keyof GalleryFilters>)
+    .filter((key) => key !== "sort")
+    .some((key) => filters[key] !== defaultGalleryFilters[key]);
+}
@@ -0,0 +1,208 @@
+import type { GeneratedVideo } from "./types";
+
+export const HISTORY_VERSION = 1;
+
+const DB_NAME = "clipo";
+const DB_STORE = "renders";
+const LOCAL_STORAGE_KEY = "clipo:renders";
+
+type StoredRecord = Record<string, unknown> & { schemaVersion?: number };
+
+/** Storage backend for the render gallery. */
+export interface HistoryStore {
+  list(): Promise<GeneratedVideo[]>;
+  put(video: GeneratedVideo): Promise<void>;
+  remove(id: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+// migrations[n] upgrades a record from schema version n to n + 1.
+const migrations: Array<(record: StoredRecord) => StoredRecord> = [
+  // v0 → v1: records from before versioning have no pinned flag.
+  (record) => ({ ...record, pinned: record.pinned === true }),
+];
+
+export function migrateRecord(input: unknown): GeneratedVideo | undefined {
+  if (typeof input !== "object" || input === null) {
+    return undefined;
+  }
+
+  let record = input as StoredRecord;
+  let version =
+    typeof record.schemaVersion === "number" ? record.schemaVersion : 0;
+
+  if (version > HISTORY_VERSION) {
+    return undefined;
+  }
+
+  while (version < HISTORY_VERSION) {
+    record = migrations[version](record);
+    version += 1;
+  }
+
+  if (
+    typeof record.id !== "string" ||
+    typeof record.url !== "string" ||
+    typeof record.prompt !== "string" ||
+    typeof record.createdAt !== "number"
+  ) {
+    return undefined;
+  }
+
+  const { schemaVersion: _version, ...video } = record;
+  return video as unknown as GeneratedVideo;
+}
+
+export function toStoredRecord(video: GeneratedVideo): StoredRecord {
+  return { ...video, schemaVersion: HISTORY_VERSION };
+}
+
+function migrateAll(records: unknown[]) {
+  return records.flatMap((record) => {
+    const video = migrateRecord(record);
+    return video ? [video] : [];
+  });
+}
+
+function promisify<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function createIndexedDbStore(): HistoryStore {
+  let database: Promise<IDBDatabase> | undefined;
+
+  const open = () => {
+    database ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(DB_STORE, { keyPath: "id" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return database;
+  };
+
+  const withStore = async <T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>,
+  ) => {
+    const db = await open();
+    return promisify(run(db.transaction(DB_STORE, mode).objectStore(DB_STORE)));
+  };
+
+  return {
+    async list() {
+      return migrateAll(await withStore("readonly", (store) => store.getAll()));
+    },
+    async put(video) {
+      await withStore("readwrite", (store) => store.put(toStoredRecord(video)));
+    },
+    async remove(id) {
+      await withStore("readwrite", (store) => store.delete(id));
+    },
+    async clear() {
+      await withStore("readwrite", (store) => store.clear());
+    },
+  };
+}
+
+export function createLocalStorageStore(): HistoryStore {
+  const read = (): StoredRecord[] => {
+    try {
+      const parsed = JSON.parse(
+        localStorage.getItem(LOCAL_STORAGE_KEY) ?? "[]",
+      );
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      return [];
+    }
+  };
+
+  // Narration arrives as a base64 data URL, which would exhaust the ~5MB
+  // localStorage quota after a handful of renders.
+  const write = (records: StoredRecord[]) => {
+    localStorage.setItem(
+      LOCAL_STORAGE_KEY,
+      JSON.stringify(
+        records.map((record) =>
+          typeof record.audioUrl === "string" &&
+          record.audioUrl.startsWith("data:")
+            ? { ...record, audioUrl: undefined }
+            : record,
+        ),
+      ),
+    );
+  };
+
+  return {
+    async list() {
+      return migrateAll(read());
+    },
+    async put(video) {
+      write([
+        toStoredRecord(video),
+        ...read().filter((record) => record.id !== video.id),
+      ]);
+    },
+    async remove(id) {
+      write(read().filter((record) => record.id !== id));
+    },
+    async clear() {
+      localStorage.removeItem(LOCAL_STORAGE_KEY);
+    },
+  };
+}
+
+export function createRemoteStore(endpoint = "/api/renders"): HistoryStore {
+  const send = async (input: string, init?: RequestInit) => {
+    const response = await fetch(input, { cache: "no-store", ...init });
+    if (!response.ok) {
+      throw new Error(`Render store responded with HTTP ${response.status}.`);
+    }
+    return response;
+  };
+
+  return {
+    async list() {
+      const { renders } = (await (await send(endpoint)).json()) as {
+        renders: unknown[];
+      };
+      return migrateAll(renders);
+    },
+    async put(video) {
+      await send(endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(toStoredRecord(video)),
+      });
+    },
+    async remove(id) {
+      await send(`${endpoint}/${encodeURIComponent(id)}`, { method: "DELETE" });
+    },
+    async clear() {
+      await send(endpoint, { method: "DELETE" });
+    },
+  };
+}
+
+export function createHistoryStore(): HistoryStore {
+  if (process.env.NEXT_PUBLIC_HISTORY_STORE === "server") {
+    return createRemoteStore();
+  }
+
+  return typeof indexedDB !== "undefined"
+    ? createIndexedDbStore()
+    : createLocalStorageStore();
+}
+
+export function sortHistory(videos: GeneratedVideo[]) {
+  return [...videos].sort(
+    (a, b) =>
+      Number(b.pinned ?? false) - Number(a.pinned ?? false) ||
+      b.createdAt - a.createdAt,
+  );
+}
@@ -0,0 +1,212 @@
+import { NextResponse } from "next/server";
+
+import { MAX_BATCH_ROWS } from "./batch";
+import { parseBrandKit } from "./brand";
+import { parseBriefOptions } from "./brief";
+import {
+  type CampaignInput,
+  DEFAULT_CONCURRENCY,
+  MAX_CONCURRENCY,
+} from "./campaigns";
+import { GenerateError } from "./errors";
+import type { JobInput } from "./jobs";
+import { parseStoryboard } from "./schema";
+import type { ClipSelection, GenerateErrorBody } from "./types";
+
+const MIN_TIMEOUT_SECONDS = 10;
+const MAX_TIMEOUT_SECONDS = 30 * 60;
+
+export function errorResponse(error: GenerateError) {
+  return NextResponse.json<GenerateErrorBody>(
+    { error: error.toInfo() },
+    {
+      status: error.status,
+      headers:
+        error.retryAfterSeconds === undefined
+          ? undefined
+          : { "Retry-After": String(error.retryAfterSeconds) },
+    },
+  );
+}
+
+export async function readJsonBody(
+  request: Request,
+): Promise<Record<string, unknown>> {
+  try {
+    const body = await request.json();
+    if (typeof body === "object" && body !== null && !Array.isArray(body)) {
+      return body;
+    }
+  } catch (error) {
+    // Reported below.
+  }
+
+  throw new GenerateError("invalid_request", {
+    message: "Request body must be a JSON object.",
+  });
+}
+
+function readClips(input: unknown): ClipSelection[] | undefined {
+  if (input === undefined || input === null) {
+    return undefined;
+  }
+
+  const clips = Array.isArray(input)
+    ? input.filter(
+        (clip): clip is ClipSelection =>
+          typeof clip?.sceneNumber === "number" &&
+          typeof clip.videoUrl === "string" &&
+          clip.videoUrl.startsWith("https://"),
+      )
+    : [];
+
+  if (!Array.isArray(input) || clips.length !== input.length) {
+    throw new GenerateError("invalid_request", {
+      message: "Each clip needs a sceneNumber and an https videoUrl.",
+    });
+  }
+
+  return clips.length > 0
+    ? clips.map(({ sceneNumber, videoUrl }) => ({ sceneNumber, videoUrl }))
+    : undefined;
+}
+
+function readTimeout(input: unknown) {
+  if (input === undefined || input === null) {
+    return undefined;
+  }
+
+  if (
+    typeof input !== "number" ||
+    !Number.isFinite(input) ||
+    input < MIN_TIMEOUT_SECONDS ||
+    input > MAX_TIMEOUT_SECONDS
+  ) {
+    throw new GenerateError("invalid_request", {
+      message: `timeoutSeconds must be between ${MIN_TIMEOUT_SECONDS} and ${MAX_TIMEOUT_SECONDS}.`,
+    });
+  }
+
+  return Math.round(input);
+}
+
+function readBrand(input: unknown) {
+  return input === undefined || input === null
+    ? undefined
+    : parseBrandKit(input);
+}
+
+/** The app's public origin: `APP_URL`, or the one the request came in on. */
+export function appOrigin(request: Request) {
+  return process.env.APP_URL || new URL(request.url).origin;
+}
+
+/** Where the workflow should post progress for a job. */
+export function callbackUrlFor(request: Request, jobId: string) {
+  return new URL(`/api/jobs/${jobId}/events`, appOrigin(request)).toString();
+}
+
+/**
+ * Reads the `{ topic, brief, storyboard, clips, brand, parentId,
+ * timeoutSeconds }` body shared by the generation routes.
+ */
+export async function readGenerateRequest(request: Request): Promise<JobInput> {
+  const body = await readJsonBody(request);
+  const topic = typeof body.topic === "string" ? body.topic.trim() : "";
+
+  if (!topic) {
+    throw new GenerateError("invalid_request", {
+      message: "Tell us what story to bring to life first.",
+    });
+  }
+
+  const brief = parseBriefOptions(body.brief);
+  const clips = readClips(body.clips);
+  const timeoutSeconds = readTimeout(body.timeoutSeconds);
+  const brand = readBrand(body.brand);
+  const parentId =
+    typeof body.parentId === "string" && body.parentId
+      ? body.parentId
+      : undefined;
+
+  if (body.storyboard === undefined || body.storyboard === null) {
+    if (clips) {
+      throw new GenerateError("invalid_request", {
+        message: "Clip choices need the storyboard they belong to.",
+      });
+    }
+    return { topic, brief, brand, parentId, timeoutSeconds };
+  }
+
+  const { value, issues } = parseStoryboard(body.storyboard);
+
+  if (!value || issues.length > 0) {
+    throw new GenerateError("invalid_request", {
+      message: "The storyboard has scenes that need fixing.",
+      detail: issues
+        .map((issue) => `${issue.path}: ${issue.message}`)
+        .join("\n"),
+    });
+  }
+
+  return {
+    topic,
+    brief,
+    storyboard: value,
+    clips,
+    brand,
+    parentId,
+    timeoutSeconds,
+  };
+}
+
+/** Reads a `CampaignRequest`: a name, topic rows and shared options. */
+export async function readCampaignRequest(
+  request: Request,
+): Promise<CampaignInput> {
+  const body = await readJsonBody(request);
+  const name = typeof body.name === "string" ? body.name.trim() : "";
+  const rows = Array.isArray(body.rows) ? body.rows : [];
+
+  if (!name) {
+    throw new GenerateError("invalid_request", {
+      message: "Give the campaign a name.",
+    });
+  }
+
+  if (rows.length === 0 || rows.length > MAX_BATCH_ROWS) {
+    throw new GenerateError("invalid_request", {
+      message: `A campaign needs between 1 and ${MAX_BATCH_ROWS} topics.`,
+    });
+  }
+
+  const shared =
+    typeof body.brief === "object" && body.brief !== null ? body.brief : {};
+  const timeoutSeconds = readTimeout(body.timeoutSeconds);
+  const brand = readBrand(body.brand);
+  const jobs = rows.map((row, index) => {
+    const topic = typeof row?.topic === "string" ? row.topic.trim() : "";
+
+    if (!topic) {
+      throw new GenerateError("invalid_request", {
+        message: `Row ${index + 1} has no topic.`,
+      });
+    }
+
+    const brief =
+      typeof row.brief === "object" && row.brief !== null ? row.brief : {};
+    return {
+      topic,
+      brief: parseBriefOptions({ ...shared, ...brief }),
+      brand,
+      timeoutSeconds,
+    };
+  });
+
+  const concurrency =
+    typeof body.concurrency === "number" && Number.isFinite(body.concurrency)
+      ? Math.min(MAX_CONCURRENCY, Math.max(1, Math.round(body.concurrency)))
+      : DEFAULT_CONCURRENCY;
+
+  return { name: name.slice(0, 80), concurrency, jobs };
+}
@@ -0,0 +1,543 @@
+import { type GenerationBackend, getBackend } from "./backend";
+import { toWorkflowBrief } from "./brief";
+import type {
+  GenerationJob,
+  JobAttempt,
+  JobAttemptTrigger,
+  JobCallbackPayload,
+  JobEvent,
+} from "./types";
+import {
+  type GenerateErrorCode,
+  GenerateError,
+  toGenerateError,
+} from "./errors";
+import { progressForEvent } from "./progress";
+import { saveRender } from "./render-store";
+
+const EXPECTED_RENDER_MS = 60000;
+const DEFAULT_ATTEMPT_TIMEOUT_MS = 30 * 60 * 1000;
+const CALLBACK_CHECK_MS = 1000;
+const JOB_TTL_MS = 60 * 60 * 1000;
+
+// Failures worth trying again without asking: the request never got a
+// definite answer, or the backend asked us to slow down.
+const TRANSIENT_CODES: GenerateErrorCode[] = [
+  "network",
+  "timeout",
+  "upstream_http",
+  "rate_limited",
+];
+const MAX_AUTOMATIC_RETRIES = 2;
+const BACKOFF_BASE_MS = 2000;
+const BACKOFF_MAX_MS = 60000;
+
+// Keep the store on globalThis so dev-mode module reloads don't drop jobs.
+const globalStore = globalThis as typeof globalThis & {
+  __clipoJobs?: Map<string, GenerationJob>;
+  __clipoJobControllers?: Map<string, AbortController>;
+};
+
+const jobs = (globalStore.__clipoJobs ??= new Map<string, GenerationJob>());
+const controllers = (globalStore.__clipoJobControllers ??= new Map<
+  string,
+  AbortController
+>());
+
+function pruneJobs(now: number) {
+  jobs.forEach((job, id) => {
+    if (isSettled(job) && now - job.updatedAt > JOB_TTL_MS) {
+      jobs.delete(id);
+    }
+  });
+}
+
+export type JobInput = Pick<
+  GenerationJob,
+  | "topic"
+  | "brief"
+  | "storyboard"
+  | "clips"
+  | "timeoutSeconds"
+  | "campaign"
+  | "brand"
+  | "parentId"
+  | "ownerId"
+  | "workspaceId"
+>;
+
+export function createJob(input: JobInput): GenerationJob {
+  const now = Date.now();
+  pruneJobs(now);
+
+  const job: GenerationJob = {
+    id: crypto.randomUUID(),
+    ...input,
+    status: "queued",
+    stage: "received",
+    progress: 0,
+    createdAt: now,
+    updatedAt: now,
+    events: [],
+    attempts: [],
+  };
+
+  jobs.set(job.id, job);
+  return job;
+}
+
+export function updateJob(
+  id: string,
+  patch: Partial<Omit<GenerationJob, "id" | keyof JobInput | "createdAt">>,
+) {
+  const job = jobs.get(id);
+
+  if (!job) {
+    return undefined;
+  }
+
+  const next = { ...job, ...patch, updatedAt: Date.now() };
+  jobs.set(id, next);
+  return next;
+}
+
+/**
+ * Jobs holding a render slot. Queued campaign jobs wait for the campaign's own
+ * concurrency limit, so only the running ones count.
+ */
+export function countActiveJobs(match: (job: GenerationJob) => boolean) {
+  return Array.from(jobs.values()).filter(
+    (job) =>
+      (job.status === "running" ||
+        (job.status === "queued" && !job.campaign)) &&
+      match(job),
+  ).length;
+}
+
+export function getJob(id: string): GenerationJob | undefined {
+  const job = jobs.get(id);
+
+  if (!job || job.status !== "running" || job.events.length > 0) {
+    return job;
+  }
+
+  // Until the workflow reports its first milestone, progress is an estimate
+  // based on the typical render time.
+  const startedAt = job.attempts.at(-1)?.startedAt ?? job.createdAt;
+  const elapsed = Date.now() - startedAt;
+  const estimate = Math.min(
+    95,
+    Math.round((elapsed / EXPECTED_RENDER_MS) * 100),
+  );
+
+  return { ...job, progress: Math.max(job.progress, estimate) };
+}
+
+function isSettled(job: GenerationJob | undefined) {
+  return (
+    job?.status === "succeeded" ||
+    job?.status === "failed" ||
+    job?.status === "cancelled"
+  );
+}
+
+/**
+ * Records how the current attempt ended. A render that finishes while its
+ * attempt waits for an automatic retry still counts as that attempt's success.
+ */
+function settleAttempt(
+  attempts: JobAttempt[],
+  patch: Pick<JobAttempt, "outcome" | "error" | "retryAt">,
+) {
+  const current = attempts.at(-1);
+  const lateSuccess = patch.outcome === "succeeded" && !!current?.retryAt;
+
+  if (!current || (current.outcome && !lateSuccess)) {
+    return attempts;
+  }
+
+  return [
+    ...attempts.slice(0, -1),
+    { ...current, ...patch, finishedAt: Date.now() },
+  ];
+}
+
+function failJob(id: string, error: unknown) {
+  if (!(error instanceof GenerateError)) {
+    console.error(error);
+  }
+
+  const info = toGenerateError(error).toInfo();
+
+  return updateJob(id, {
+    status: "failed",
+    error: info,
+    attempts: settleAttempt(jobs.get(id)?.attempts ?? [], {
+      outcome: "failed",
+      error: info,
+    }),
+  });
+}
+
+function deliverJob(
+  job: GenerationJob,
+  { video, issues }: ReturnType<GenerationBackend["toVideo"]>,
+) {
+  const { id } = job;
+
+  if (issues.length > 0) {
+    console.warn(`Job ${id}: workflow response had invalid fields`, issues);
+  }
+
+  const delivered = {
+    ...video,
+    brief: job.brief,
+    campaign: job.campaign,
+    brand: job.brand,
+    parentId: job.parentId,
+    ownerId: job.ownerId,
+    workspaceId: job.workspaceId,
+  };
+  saveRender(delivered);
+
+  return updateJob(id, {
+    status: "succeeded",
+    stage: "delivered",
+    progress: 100,
+    video: delivered,
+    issues: issues.length > 0 ? issues : undefined,
+    error: undefined,
+    attempts: settleAttempt(jobs.get(id)?.attempts ?? [], {
+      outcome: "succeeded",
+      error: undefined,
+      retryAt: undefined,
+    }),
+  });
+}
+
+function completeJob(job: GenerationJob, result: unknown) {
+  try {
+    return deliverJob(job, getBackend().toVideo(job.topic, result));
+  } catch (error) {
+    return failJob(job.id, error);
+  }
+}
+
+/**
+ * Applies a workflow callback. Callbacks tagged with an earlier `attempt`
+ * belong to a run that was cancelled or retried, and are ignored.
+ */
+/** Whether a callback for `attempt` may still change the job. */
+function acceptsCallback(
+  job: GenerationJob | undefined,
+  attempt?: number,
+): job is GenerationJob {
+  return (
+    !!job &&
+    !isSettled(job) &&
+    (attempt === undefined || attempt === job.attempts.length)
+  );
+}
+
+export function applyJobEvent(
+  id: string,
+  payload: JobCallbackPayload,
+  attempt?: number,
+) {
+  const job = jobs.get(id);
+
+  if (!acceptsCallback(job, attempt)) {
+    return job;
+  }
+
+  const event: JobEvent = {
+    type: payload.type,
+    at: Date.now(),
+    sceneNumber: payload.sceneNumber,
+    totalScenes: payload.totalScenes,
+    renderId: payload.renderId,
+    message: payload.message,
+  };
+  const { stage, progress } = progressForEvent(job, event);
+
+  updateJob(id, {
+    status: "running",
+    stage,
+    progress: Math.max(job.progress, progress),
+    events: [...job.events, event],
+    externalId: job.externalId ?? payload.externalId,
+  });
+
+  if (event.type === "render_succeeded") {
+    return completeJob(job, payload.result);
+  }
+
+  if (event.type === "render_failed") {
+    return failJob(
+      id,
+      new GenerateError("render_failed", {
+        detail: event.renderId
+          ? `${event.message ?? "Render failed"} (render ${event.renderId})`
+          : event.message,
+      }),
+    );
+  }
+
+  return jobs.get(id);
+}
+
+/**
+ * Fails a job whose callback couldn't be read, instead of leaving it running
+ * until the attempt times out.
+ */
+export function rejectCallback(
+  id: string,
+  error: GenerateError,
+  attempt?: number,
+) {
+  const job = jobs.get(id);
+  return acceptsCallback(job, attempt) ? failJob(id, error) : job;
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function backoffDelay(retry: number, retryAfterSeconds?: number) {
+  const exponential = Math.min(
+    BACKOFF_MAX_MS,
+    BACKOFF_BASE_MS * 2 ** (retry - 1),
+  );
+  const jitter = Math.round(Math.random() * exponential * 0.2);
+  return Math.max(exponential + jitter, (retryAfterSeconds ?? 0) * 1000);
+}
+
+function isCurrentAttempt(id: string, attempt: number) {
+  const job = jobs.get(id);
+  return !!job && !isSettled(job) && job.attempts.length === attempt;
+}
+
+/**
+ * Runs one attempt and returns the error that ended it, or nothing when the
+ * job settled (delivered, failed by callback, cancelled) along the way.
+ */
+async function runAttempt(
+  id: string,
+  attempt: number,
+  callbackUrl: string | undefined,
+  signal: AbortSignal,
+): Promise<GenerateError | undefined> {
+  const job = jobs.get(id);
+
+  if (!job) {
+    return undefined;
+  }
+
+  const timeoutMs = job.timeoutSeconds
+    ? job.timeoutSeconds * 1000
+    : DEFAULT_ATTEMPT_TIMEOUT_MS;
+  const deadline = Date.now() + timeoutMs;
+  // Held here, not only inside `any()`, or it can be collected before it fires.
+  const attemptTimeout = AbortSignal.timeout(timeoutMs);
+  const attemptSignal = AbortSignal.any([signal, attemptTimeout]);
+  let backend: GenerationBackend | undefined;
+
+  try {
+    backend = getBackend();
+    let state = await backend.submit(
+      {
+        topic: job.topic,
+        ...toWorkflowBrief(job.brief),
+        mode: "render",
+        title: job.storyboard?.title || undefined,
+        scenes: job.storyboard?.scenes,
+        clips: job.clips,
+        brand: job.brand,
+        jobId: id,
+        callbackUrl:
+          callbackUrl &&
+          `${callbackUrl}${callbackUrl.includes("?") ? "&" : "?"}attempt=${attempt}`,
+      },
+      attemptSignal,
+    );
+
+    while (state.state === "running") {
+      // A callback may already have settled the job.
+      const current = jobs.get(id);
+      if (!current || !isCurrentAttempt(id, attempt)) {
+        return undefined;
+      }
+
+      updateJob(id, {
+        externalId: current.externalId ?? state.externalId,
+        ...(state.progress !== undefined && {
+          stage: "rendering",
+          progress: Math.max(current.progress, Math.min(95, state.progress)),
+        }),
+      });
+
+      if (Date.now() > deadline) {
+        await backend
+          .cancel({
+            jobId: id,
+            topic: job.topic,
+            externalId: current.externalId,
+          })
+          .catch((error) => console.warn(`Job ${id}: cancel failed`, error));
+        throw new GenerateError("timeout", {
+          detail: `The ${backend.name} backend was still rendering after ${timeoutMs}ms.`,
+        });
+      }
+
+      // Backends without polling report through callbacks; keep the attempt
+      // open until one of them settles the job or the deadline passes.
+      await sleep(backend.pollIntervalMs ?? CALLBACK_CHECK_MS);
+
+      if (backend.pollIntervalMs) {
+        state = await backend.status(
+          {
+            jobId: id,
+            topic: job.topic,
+            externalId: jobs.get(id)?.externalId ?? state.externalId,
+          },
+          attemptSignal,
+        );
+      }
+    }
+
+    if (isCurrentAttempt(id, attempt)) {
+      deliverJob(job, state);
+    }
+    return undefined;
+  } catch (error) {
+    if (!isCurrentAttempt(id, attempt)) {
+      return undefined;
+    }
+
+    // The attempt's own time limit fired mid-request; the backend can't tell
+    // it apart from its request timeout.
+    if (attemptTimeout.aborted && !signal.aborted) {
+      return new GenerateError("timeout", {
+        detail: `The attempt hit its ${timeoutMs}ms time limit.`,
+      });
+    }
+
+    if (!(error instanceof GenerateError)) {
+      console.error(error);
+    }
+
+    return toGenerateError(error);
+  }
+}
+
+/**
+ * Runs a job until it settles, retrying transient failures with exponential
+ * backoff. `trigger` marks whether this run started the job or is a manual
+ * retry.
+ */
+export async function runJob(
+  id: string,
+  callbackUrl?: string,
+  trigger: JobAttemptTrigger = "initial",
+) {
+  for (let retry = 0; ; retry += 1) {
+    const job = jobs.get(id);
+
+    if (!job || isSettled(job)) {
+      return;
+    }
+
+    const attempt = job.attempts.length + 1;
+    updateJob(id, {
+      status: "running",
+      stage: "received",
+      progress: 0,
+      events: [],
+      externalId: undefined,
+      error: undefined,
+      attempts: [
+        ...job.attempts,
+        {
+          number: attempt,
+          trigger: retry === 0 ? trigger : "automatic",
+          startedAt: Date.now(),
+        },
+      ],
+    });
+
+    const controller = new AbortController();
+    controllers.set(id, controller);
+    const error = await runAttempt(id, attempt, callbackUrl, controller.signal);
+    controllers.delete(id);
+
+    if (!error) {
+      return;
+    }
+
+    if (
+      !TRANSIENT_CODES.includes(error.code) ||
+      retry >= MAX_AUTOMATIC_RETRIES
+    ) {
+      failJob(id, error);
+      return;
+    }
+
+    const delay = backoffDelay(retry + 1, error.retryAfterSeconds);
+    const info = error.toInfo();
+    updateJob(id, {
+      status: "queued",
+      error: info,
+      attempts: settleAttempt(jobs.get(id)?.attempts ?? [], {
+        outcome: "failed",
+        error: info,
+        retryAt: Date.now() + delay,
+      }),
+    });
+    await sleep(delay);
+
+    if (jobs.get(id)?.status !== "queued") {
+      return;
+    }
+  }
+}
+
+/** Stops a job: aborts its in-flight calls and asks the backend to cancel. */
+export async function cancelJob(id: string) {
+  const job = jobs.get(id);
+
+  if (!job || isSettled(job)) {
+    return job;
+  }
+
+  controllers.get(id)?.abort();
+  const cancelled = updateJob(id, {
+    status: "cancelled",
+    attempts: settleAttempt(job.attempts, { outcome: "cancelled" }),
+  });
+
+  try {
+    await getBackend().cancel({
+      jobId: id,
+      topic: job.topic,
+      externalId: job.externalId,
+    });
+  } catch (error) {
+    console.warn(`Job ${id}: the backend could not cancel the render`, error);
+  }
+
+  return cancelled;
+}
+
+/**
+ * Puts a failed or cancelled job back in the queue. The caller starts the
+ * new attempt with `runJob(id, callbackUrl, "manual")`.
+ */
+export function retryJob(id: string) {
+  const job = jobs.get(id);
+
+  if (!job || (job.status !== "failed" && job.status !== "cancelled")) {
+    return undefined;
+  }
+
+  return updateJob(id, { status: "queued", error: undefined });
+}
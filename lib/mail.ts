@@ -0,0 +1,32 @@
+export type MailMessage = {
+  id: string;
+  to: string;
+  subject: string;
+  text: string;
+  sentAt: number;
+};
+
+const OUTBOX_LIMIT = 50;
+
+// A local stand-in for an email service: messages are logged and kept in
+// memory, newest first, where /api/auth/outbox can show them.
+const globalStore = globalThis as typeof globalThis & {
+  __clipoOutbox?: MailMessage[];
+};
+
+const outbox = (globalStore.__clipoOutbox ??= []);
+
+export async function sendMail(message: Omit<MailMessage, "id" | "sentAt">) {
+  const sent = { id: crypto.randomUUID(), sentAt: Date.now(), ...message };
+  outbox.unshift(sent);
+  outbox.splice(OUTBOX_LIMIT);
+  console.info(`Mail to ${sent.to}: ${sent.subject}\n${sent.text}`);
+}
+
+export function listOutbox(to?: string) {
+  return to
+    ? outbox.filter(
+        (message) => message.to.toLowerCase() === to.trim().toLowerCase(),
+      )
+    : [...outbox];
+}
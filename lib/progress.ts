@@ -0,0 +1,25 @@
+import type { GenerationJob, JobEvent, JobStage } from "./types";
+
+/** Where a job's stage and progress bar should be after `event`. */
+export function progressForEvent(
+  job: Pick<GenerationJob, "stage" | "progress">,
+  event: Pick<JobEvent, "type" | "sceneNumber" | "totalScenes">,
+): { stage: JobStage; progress: number } {
+  switch (event.type) {
+    case "script_parsed":
+      return { stage: "rendering", progress: 20 };
+    case "voiceover_ready":
+      return { stage: "rendering", progress: 35 };
+    case "clip_fetched": {
+      const ratio =
+        event.sceneNumber && event.totalScenes
+          ? Math.min(1, event.sceneNumber / event.totalScenes)
+          : 0;
+      return { stage: "rendering", progress: 35 + Math.round(ratio * 35) };
+    }
+    case "render_submitted":
+      return { stage: "delivered", progress: 75 };
+    default:
+      return { stage: job.stage, progress: job.progress };
+  }
+}
@@ -0,0 +1,211 @@
+import type { Access } from "./auth";
+import { GenerateError } from "./errors";
+import { countActiveJobs } from "./jobs";
+import type {
+  GenerationJob,
+  QuotaScope,
+  QuotaWindow,
+  UsageMeter,
+} from "./types";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+/** A slot usually frees up within a render or two; suggest checking back soon. */
+const CONCURRENT_RETRY_SECONDS = 30;
+
+const windowMs: Record<Exclude<QuotaWindow, "concurrent">, number> = {
+  hour: HOUR_MS,
+  day: DAY_MS,
+};
+
+const defaultLimits: Record<
+  Exclude<QuotaScope, "app">,
+  Record<QuotaWindow, number>
+> = {
+  user: { hour: 10, day: 40, concurrent: 2 },
+  workspace: { hour: 30, day: 120, concurrent: 4 },
+};
+
+const windowEnv: Record<QuotaWindow, string> = {
+  hour: "HOURLY",
+  day: "DAILY",
+  concurrent: "CONCURRENT",
+};
+
+const windowLabels: Record<QuotaWindow, string> = {
+  hour: "an hour",
+  day: "a day",
+  concurrent: "at once",
+};
+
+type Subject = {
+  scope: QuotaScope;
+  key: string;
+  matches: (job: GenerationJob) => boolean;
+};
+
+// Start times of accepted renders per subject, newest last. Jobs are pruned
+// an hour after they settle, so the daily window can't be read off the job
+// store.
+const globalStore = globalThis as typeof globalThis & {
+  __clipoUsage?: Map<string, number[]>;
+};
+
+const usage = (globalStore.__clipoUsage ??= new Map<string, number[]>());
+
+/**
+ * `QUOTA_<USER|WORKSPACE>_<HOURLY|DAILY|CONCURRENT>`, falling back to the
+ * defaults. `0` turns a limit off. Without sign-in the whole app shares the
+ * workspace limits.
+ */
+function limitFor(scope: QuotaScope, window: QuotaWindow) {
+  const base = scope === "user" ? "user" : "workspace";
+  const raw = process.env[`QUOTA_${base.toUpperCase()}_${windowEnv[window]}`];
+  const limit = raw === undefined || raw === "" ? NaN : Number(raw);
+  return Number.isInteger(limit) && limit >= 0
+    ? limit
+    : defaultLimits[base][window];
+}
+
+function subjectsFor(ownerId?: string, workspaceId?: string): Subject[] {
+  if (!ownerId || !workspaceId) {
+    return [{ scope: "app", key: "", matches: () => true }];
+  }
+
+  return [
+    {
+      scope: "user",
+      key: ownerId,
+      matches: (job) => job.ownerId === ownerId,
+    },
+    {
+      scope: "workspace",
+      key: workspaceId,
+      matches: (job) => job.workspaceId === workspaceId,
+    },
+  ];
+}
+
+function startsFor(subject: Subject, now: number) {
+  const id = `${subject.scope}:${subject.key}`;
+  const starts = (usage.get(id) ?? []).filter((time) => now - time < DAY_MS);
+  usage.set(id, starts);
+  return starts;
+}
+
+function measure(subject: Subject, now: number): UsageMeter[] {
+  const starts = startsFor(subject, now);
+
+  return (["hour", "day", "concurrent"] as const).flatMap<UsageMeter>(
+    (window) => {
+      const limit = limitFor(subject.scope, window);
+
+      if (limit === 0) {
+        return [];
+      }
+
+      if (window === "concurrent") {
+        const used = countActiveJobs(subject.matches);
+        return [
+          {
+            scope: subject.scope,
+            window,
+            limit,
+            used,
+            remaining: Math.max(0, limit - used),
+          },
+        ];
+      }
+
+      const inWindow = starts.filter((time) => now - time < windowMs[window]);
+      return [
+        {
+          scope: subject.scope,
+          window,
+          limit,
+          used: inWindow.length,
+          remaining: Math.max(0, limit - inWindow.length),
+          resetAt: inWindow.length ? inWindow[0] + windowMs[window] : undefined,
+        },
+      ];
+    },
+  );
+}
+
+/** Every enabled limit for the caller, with what's left of it. */
+export function describeUsage(access: Access | undefined) {
+  const now = Date.now();
+  return subjectsFor(access?.user.id, access?.workspaceId).flatMap((subject) =>
+    measure(subject, now),
+  );
+}
+
+/**
+ * Whether the job's owner and workspace have a concurrent slot free.
+ * Campaigns check this before starting each row.
+ */
+export function hasFreeSlot({
+  ownerId,
+  workspaceId,
+}: Pick<GenerationJob, "ownerId" | "workspaceId">) {
+  const now = Date.now();
+  return subjectsFor(ownerId, workspaceId).every((subject) =>
+    measure(subject, now).every(
+      (meter) => meter.window !== "concurrent" || meter.remaining > 0,
+    ),
+  );
+}
+
+/**
+ * Counts `count` new renders against the caller's quotas, or throws
+ * `rate_limited` with the seconds until enough of them free up. Every row of
+ * a campaign needs room in the hourly and daily windows; starting it needs
+ * one free concurrent slot, and each later row waits for one (`hasFreeSlot`).
+ */
+export function reserveRenders(access: Access | undefined, count = 1) {
+  const now = Date.now();
+  const subjects = subjectsFor(access?.user.id, access?.workspaceId);
+
+  subjects.forEach((subject) => {
+    const starts = startsFor(subject, now);
+
+    measure(subject, now).forEach((meter) => {
+      const needed = meter.window === "concurrent" ? 1 : count;
+
+      if (meter.remaining >= needed) {
+        return;
+      }
+
+      const who = subject.scope === "user" ? "You have" : "This workspace has";
+      const limit = `${meter.limit} ${meter.limit === 1 ? "render" : "renders"} ${windowLabels[meter.window]}`;
+
+      if (needed > meter.limit) {
+        throw new GenerateError("invalid_request", {
+          message: `That's ${count} renders, more than the limit of ${limit}.`,
+        });
+      }
+
+      const { window } = meter;
+      let freesAt = now + CONCURRENT_RETRY_SECONDS * 1000;
+
+      if (window !== "concurrent") {
+        // The render that has to age out before this request fits.
+        const inWindow = starts.filter((time) => now - time < windowMs[window]);
+        freesAt =
+          inWindow[meter.used + needed - meter.limit - 1] + windowMs[window];
+      }
+
+      throw new GenerateError("rate_limited", {
+        message:
+          subject.scope === "app"
+            ? `The limit of ${limit} is used up.`
+            : `${who} used the limit of ${limit}.`,
+        retryAfterSeconds: Math.max(1, Math.ceil((freesAt - now) / 1000)),
+      });
+    });
+  });
+
+  subjects.forEach((subject) => {
+    startsFor(subject, now).push(...Array<number>(count).fill(now));
+  });
+}
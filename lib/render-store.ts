@@ -0,0 +1,52 @@
+import { migrateRecord, toStoredRecord } from "./history";
+import type { GeneratedVideo } from "./types";
+
+// Server-side render records. Every finished job lands here so share pages
+// can find it, and it backs the gallery when NEXT_PUBLIC_HISTORY_STORE=server.
+// Records keep their schemaVersion so migrations stay in one place.
+const globalStore = globalThis as typeof globalThis & {
+  __clipoRenders?: Map<string, Record<string, unknown>>;
+};
+
+const renders = (globalStore.__clipoRenders ??= new Map<
+  string,
+  Record<string, unknown>
+>());
+
+/**
+ * Every stored record, or the ones a workspace sees when `workspaceId` is
+ * set: its own plus those saved before sign-in, which have no workspace.
+ */
+export function listRenders(workspaceId?: string) {
+  const records = Array.from(renders.values());
+  return workspaceId
+    ? records.filter(
+        (record) => !record.workspaceId || record.workspaceId === workspaceId,
+      )
+    : records;
+}
+
+export function getRender(id: string): GeneratedVideo | undefined {
+  return migrateRecord(renders.get(id));
+}
+
+export function saveRender(video: GeneratedVideo) {
+  renders.set(video.id, toStoredRecord(video));
+}
+
+export function deleteRender(id: string) {
+  return renders.delete(id);
+}
+
+export function clearRenders(workspaceId?: string) {
+  if (!workspaceId) {
+    renders.clear();
+    return;
+  }
+  // Renders without a workspace are shared, so one workspace can't clear them.
+  renders.forEach((record, id) => {
+    if (record.workspaceId === workspaceId) {
+      renders.delete(id);
+    }
+  });
+}
@@ -0,0 +1,40 @@
+import type { WorkspaceRole } from "./types";
+
+export const roleOptions: Array<{
+  value: WorkspaceRole;
+  label: string;
+  description: string;
+}> = [
+  {
+    value: "owner",
+    label: "Owner",
+    description: "Everything, including managing owners",
+  },
+  {
+    value: "admin",
+    label: "Admin",
+    description: "Generates and manages members",
+  },
+  {
+    value: "editor",
+    label: "Editor",
+    description: "Generates and edits renders",
+  },
+  { value: "viewer", label: "Viewer", description: "Watches renders only" },
+];
+
+const roleRank: Record<WorkspaceRole, number> = {
+  viewer: 0,
+  editor: 1,
+  admin: 2,
+  owner: 3,
+};
+
+/** Whether `role` includes everything `minimum` may do. */
+export function hasRole(role: WorkspaceRole, minimum: WorkspaceRole) {
+  return roleRank[role] >= roleRank[minimum];
+}
+
+export function isWorkspaceRole(value: unknown): value is WorkspaceRole {
+  return roleOptions.some((option) => option.value === value);
+}
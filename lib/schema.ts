@@ -0,0 +1,303 @@
+import type { Scene, Storyboard, VideoClip } from "./types";
+
+export type SchemaIssue = {
+  path: string;
+  message: string;
+};
+
+/** The body the workflow's Respond to Webhook node (or render callback) emits. */
+export type WorkflowResult = {
+  videoUrl: string;
+  thumbnailUrl?: string;
+  title?: string;
+  topic?: string;
+  duration?: number;
+  width?: number;
+  height?: number;
+  renderId?: string;
+  narration?: string;
+  scenes?: Scene[];
+  audioUrl?: string;
+  videoClips?: VideoClip[];
+};
+
+type Reader<T> = (
+  value: unknown,
+  path: string,
+  issues: SchemaIssue[],
+) => T | undefined;
+
+function describe(value: unknown) {
+  if (value === null) {
+    return "null";
+  }
+  return Array.isArray(value) ? "array" : typeof value;
+}
+
+const readString: Reader<string> = (value, path, issues) => {
+  if (typeof value === "string") {
+    return value.trim() || undefined;
+  }
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return String(value);
+  }
+  issues.push({ path, message: `expected a string, got ${describe(value)}` });
+  return undefined;
+};
+
+const readNumber: Reader<number> = (value, path, issues) => {
+  const number =
+    typeof value === "string" && value.trim() ? Number(value) : value;
+  if (typeof number === "number" && Number.isFinite(number) && number >= 0) {
+    return number;
+  }
+  issues.push({
+    path,
+    message: `expected a non-negative number, got ${describe(value)}`,
+  });
+  return undefined;
+};
+
+const readUrl: Reader<string> = (value, path, issues) => {
+  const text = readString(value, path, issues);
+  if (text === undefined) {
+    return undefined;
+  }
+  if (text.startsWith("data:") || text.startsWith("/")) {
+    return text;
+  }
+  try {
+    const url = new URL(text);
+    if (url.protocol === "http:" || url.protocol === "https:") {
+      return text;
+    }
+  } catch (error) {
+    // Fall through to the issue below.
+  }
+  issues.push({ path, message: "expected an http(s) or data URL" });
+  return undefined;
+};
+
+const readKeywords: Reader<string[]> = (value, path, issues) => {
+  if (typeof value === "string") {
+    return value
+      .split(",")
+      .map((keyword) => keyword.trim())
+      .filter(Boolean);
+  }
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: `expected an array, got ${describe(value)}` });
+    return undefined;
+  }
+  return value.flatMap((keyword, index) => {
+    const text = readString(keyword, `${path}[${index}]`, issues);
+    return text ? [text] : [];
+  });
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function optional<T>(
+  reader: Reader<T>,
+  value: unknown,
+  path: string,
+  issues: SchemaIssue[],
+) {
+  return value === undefined || value === null
+    ? undefined
+    : reader(value, path, issues);
+}
+
+function readList<T>(
+  reader: Reader<T>,
+  value: unknown,
+  path: string,
+  issues: SchemaIssue[],
+) {
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: `expected an array, got ${describe(value)}` });
+    return undefined;
+  }
+  return value.flatMap((entry, index) => {
+    const item = reader(entry, `${path}[${index}]`, issues);
+    return item === undefined ? [] : [item];
+  });
+}
+
+const readScene: Reader<Scene> = (value, path, issues) => {
+  if (!isRecord(value)) {
+    issues.push({
+      path,
+      message: `expected an object, got ${describe(value)}`,
+    });
+    return undefined;
+  }
+  const sceneNumber = readNumber(
+    value.sceneNumber,
+    `${path}.sceneNumber`,
+    issues,
+  );
+  const duration = readNumber(value.duration, `${path}.duration`, issues);
+  const narration = readString(value.narration, `${path}.narration`, issues);
+
+  if (sceneNumber === undefined || duration === undefined || !narration) {
+    issues.push({ path, message: "scene dropped: missing required fields" });
+    return undefined;
+  }
+
+  return {
+    sceneNumber,
+    duration,
+    narration,
+    keywords:
+      optional(readKeywords, value.keywords, `${path}.keywords`, issues) ?? [],
+    visualDescription:
+      optional(
+        readString,
+        value.visualDescription,
+        `${path}.visualDescription`,
+        issues,
+      ) ?? "",
+  };
+};
+
+const readVideoClip: Reader<VideoClip> = (value, path, issues) => {
+  if (!isRecord(value)) {
+    issues.push({
+      path,
+      message: `expected an object, got ${describe(value)}`,
+    });
+    return undefined;
+  }
+  const sceneNumber = readNumber(
+    value.sceneNumber,
+    `${path}.sceneNumber`,
+    issues,
+  );
+
+  if (sceneNumber === undefined) {
+    issues.push({ path, message: "clip dropped: missing sceneNumber" });
+    return undefined;
+  }
+
+  return {
+    sceneNumber,
+    videoUrl: optional(readUrl, value.videoUrl, `${path}.videoUrl`, issues),
+    duration: optional(readNumber, value.duration, `${path}.duration`, issues),
+    narration: optional(
+      readString,
+      value.narration,
+      `${path}.narration`,
+      issues,
+    ),
+    caption: optional(readString, value.caption, `${path}.caption`, issues),
+  };
+};
+
+/**
+ * Validates and coerces a workflow response. Optional fields that fail
+ * validation are dropped and reported in `issues`; `value` is undefined when
+ * the response has no usable video URL.
+ */
+export function parseWorkflowResult(input: unknown): {
+  value?: WorkflowResult;
+  issues: SchemaIssue[];
+} {
+  const issues: SchemaIssue[] = [];
+
+  if (!isRecord(input)) {
+    issues.push({
+      path: "$",
+      message: `expected an object, got ${describe(input)}`,
+    });
+    return { issues };
+  }
+
+  const videoUrlKey = input.videoUrl !== undefined ? "videoUrl" : "url";
+  const videoUrl = optional(readUrl, input[videoUrlKey], videoUrlKey, issues);
+
+  if (!videoUrl) {
+    if (input[videoUrlKey] === undefined || input[videoUrlKey] === null) {
+      issues.push({ path: "videoUrl", message: "is required" });
+    }
+    return { issues };
+  }
+
+  const thumbnailKey =
+    input.thumbnailUrl !== undefined && input.thumbnailUrl !== null
+      ? "thumbnailUrl"
+      : "posterUrl";
+
+  return {
+    value: {
+      videoUrl,
+      thumbnailUrl: optional(
+        readUrl,
+        input[thumbnailKey],
+        thumbnailKey,
+        issues,
+      ),
+      title: optional(readString, input.title, "title", issues),
+      topic: optional(readString, input.topic, "topic", issues),
+      duration: optional(readNumber, input.duration, "duration", issues),
+      width: optional(readNumber, input.width, "width", issues),
+      height: optional(readNumber, input.height, "height", issues),
+      renderId: optional(readString, input.renderId, "renderId", issues),
+      narration: optional(readString, input.narration, "narration", issues),
+      scenes: optional(
+        (value, path, list) => readList(readScene, value, path, list),
+        input.scenes,
+        "scenes",
+        issues,
+      ),
+      audioUrl: optional(readUrl, input.audioUrl, "audioUrl", issues),
+      videoClips: optional(
+        (value, path, list) => readList(readVideoClip, value, path, list),
+        input.videoClips,
+        "videoClips",
+        issues,
+      ),
+    },
+    issues,
+  };
+}
+
+/**
+ * Validates a script (title and scenes), either from the workflow's script
+ * mode or an edited storyboard posted back by the app. Scenes are renumbered
+ * in the order given.
+ */
+export function parseStoryboard(input: unknown): {
+  value?: Storyboard;
+  issues: SchemaIssue[];
+} {
+  const issues: SchemaIssue[] = [];
+
+  if (!isRecord(input)) {
+    issues.push({
+      path: "$",
+      message: `expected an object, got ${describe(input)}`,
+    });
+    return { issues };
+  }
+
+  const scenes = readList(readScene, input.scenes, "scenes", issues) ?? [];
+
+  if (scenes.length === 0) {
+    issues.push({ path: "scenes", message: "needs at least one scene" });
+    return { issues };
+  }
+
+  return {
+    value: {
+      title: optional(readString, input.title, "title", issues) ?? "",
+      scenes: scenes.map((scene, index) => ({
+        ...scene,
+        sceneNumber: index + 1,
+      })),
+    },
+    issues,
+  };
+}
@@ -0,0 +1,118 @@
+import { createHash, createHmac, randomUUID, timingSafeEqual } from "crypto";
+
+import { GenerateError } from "./errors";
+
+export const TIMESTAMP_HEADER = "x-clipo-timestamp";
+export const NONCE_HEADER = "x-clipo-nonce";
+export const SIGNATURE_HEADER = "x-clipo-signature";
+
+const TOLERANCE_SECONDS = 5 * 60;
+
+// Nonces seen inside the tolerance window. Anything older is already
+// rejected as stale, so entries can be dropped once they age out.
+const globalStore = globalThis as typeof globalThis & {
+  __clipoNonces?: Map<string, number>;
+};
+
+const nonces = (globalStore.__clipoNonces ??= new Map<string, number>());
+
+function pruneNonces(now: number) {
+  nonces.forEach((seenAt, nonce) => {
+    if (now - seenAt > TOLERANCE_SECONDS * 1000) {
+      nonces.delete(nonce);
+    }
+  });
+}
+
+export function getSigningSecret() {
+  return process.env.WEBHOOK_SIGNING_SECRET || undefined;
+}
+
+function computeSignature(
+  secret: string,
+  timestamp: string,
+  nonce: string,
+  body: string,
+) {
+  const digest = createHash("sha256").update(body).digest("hex");
+  const mac = createHmac("sha256", secret)
+    .update(`${timestamp}.${nonce}.${digest}`)
+    .digest("hex");
+  return `v1=${mac}`;
+}
+
+/**
+ * Headers that sign `body` with the shared secret, or none when signing is
+ * not configured. The signature covers the timestamp, a one-time nonce and
+ * the SHA-256 of the exact body bytes.
+ */
+export function signatureHeaders(body: string): Record<string, string> {
+  const secret = getSigningSecret();
+
+  if (!secret) {
+    return {};
+  }
+
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const nonce = randomUUID();
+
+  return {
+    [TIMESTAMP_HEADER]: timestamp,
+    [NONCE_HEADER]: nonce,
+    [SIGNATURE_HEADER]: computeSignature(secret, timestamp, nonce, body),
+  };
+}
+
+/**
+ * Throws `unauthorized` unless `body` carries a fresh, unused signature made
+ * with the shared secret. Passes everything through when signing is off.
+ */
+export function verifySignature(headers: Headers, body: string) {
+  const secret = getSigningSecret();
+
+  if (!secret) {
+    return;
+  }
+
+  const timestamp = headers.get(TIMESTAMP_HEADER);
+  const nonce = headers.get(NONCE_HEADER);
+  const signature = headers.get(SIGNATURE_HEADER);
+
+  if (!timestamp || !nonce || !signature) {
+    throw new GenerateError("unauthorized", {
+      message: "The message is not signed.",
+    });
+  }
+
+  const now = Date.now();
+  const age = Math.abs(now / 1000 - Number(timestamp));
+
+  if (!Number.isFinite(age) || age > TOLERANCE_SECONDS) {
+    throw new GenerateError("unauthorized", {
+      message: "The message signature has expired.",
+      detail: `Timestamp ${timestamp} is more than ${TOLERANCE_SECONDS}s from server time.`,
+    });
+  }
+
+  const expected = Buffer.from(
+    computeSignature(secret, timestamp, nonce, body),
+  );
+  const actual = Buffer.from(signature);
+
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    throw new GenerateError("unauthorized", {
+      message: "The message signature does not match.",
+    });
+  }
+
+  pruneNonces(now);
+
+  if (nonces.has(nonce)) {
+    throw new GenerateError("unauthorized", {
+      message: "The message was already delivered.",
+      detail: `Nonce ${nonce} was replayed.`,
+    });
+  }
+
+  nonces.set(nonce, now);
+}
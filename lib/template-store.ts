@@ -0,0 +1,23 @@
+import type { PromptTemplate } from "./templates";
+
+const TEMPLATES_KEY = "clipo:templates";
+
+/** Saved and imported templates, kept in this browser. */
+export function loadTemplates(): PromptTemplate[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(TEMPLATES_KEY) ?? "[]");
+    return Array.isArray(parsed)
+      ? parsed.filter(
+          (template): template is PromptTemplate =>
+            typeof template?.id === "string" &&
+            typeof template.text === "string",
+        )
+      : [];
+  } catch (error) {
+    return [];
+  }
+}
+
+export function saveTemplates(templates: PromptTemplate[]) {
+  localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates));
+}
@@ -0,0 +1,190 @@
+import { type BriefOptions, parseBriefOptions } from "./brief";
+
+/** A reusable prompt with `{variable}` placeholders. */
+export type PromptTemplate = {
+  id: string;
+  name: string;
+  category: string;
+  text: string;
+  /** Values each variable starts with in the fill-in form. */
+  defaults: Record<string, string>;
+  /** Brief settings applied along with the prompt. */
+  brief?: Partial<BriefOptions>;
+  builtIn?: boolean;
+};
+
+export type TemplateExport = {
+  version: 1;
+  templates: PromptTemplate[];
+};
+
+export const builtInTemplates: PromptTemplate[] = [
+  {
+    id: "built-in-trailer",
+    name: "Film trailer",
+    category: "Entertainment",
+    text: "A {duration}-second trailer for a {genre} film about {subject}",
+    defaults: {
+      duration: "20",
+      genre: "sci-fi",
+      subject: "time-traveling botanists",
+    },
+    builtIn: true,
+  },
+  {
+    id: "built-in-how-to",
+    name: "Quick how-to",
+    category: "Education",
+    text: "Create a Short video on how to {skill}",
+    defaults: { skill: "type fast" },
+    builtIn: true,
+  },
+  {
+    id: "built-in-explainer",
+    name: "Explainer",
+    category: "Education",
+    text: "A {duration}-second explainer on {topic} for {audience}",
+    defaults: { topic: "compound interest", audience: "first-time investors" },
+    builtIn: true,
+  },
+  {
+    id: "built-in-news",
+    name: "News recap",
+    category: "News",
+    text: "A hyper-realistic recap of {topic} told by an AI anchor",
+    defaults: { topic: "today's tech news" },
+    builtIn: true,
+  },
+  {
+    id: "built-in-travel",
+    name: "Dream trip",
+    category: "Travel",
+    text: "A vertical video showcasing a dream vacation to {destination} in a {tone} tone",
+    defaults: { destination: "Kyoto", tone: "cinematic" },
+    brief: { aspectRatio: "9:16" },
+    builtIn: true,
+  },
+];
+
+const VARIABLE = /\{([a-zA-Z][\w-]*)\}/g;
+
+/** The distinct variable names in `text`, in order of first use. */
+export function templateVariables(text: string) {
+  return Array.from(
+    new Set(Array.from(text.matchAll(VARIABLE), (match) => match[1])),
+  );
+}
+
+export function fillTemplate(text: string, values: Record<string, string>) {
+  return text.replace(VARIABLE, (placeholder, name: string) =>
+    values[name]?.trim() ? values[name].trim() : placeholder,
+  );
+}
+
+/**
+ * The brief a filled template produces: its own settings over `brief`, and a
+ * numeric `{duration}` becomes the target length.
+ */
+export function briefForTemplate(
+  template: PromptTemplate,
+  values: Record<string, string>,
+  brief: BriefOptions,
+): BriefOptions {
+  const duration = Number(values.duration);
+
+  return parseBriefOptions({
+    ...brief,
+    ...template.brief,
+    ...(Number.isFinite(duration) &&
+      duration > 0 && { durationSeconds: duration }),
+  });
+}
+
+/**
+ * The starting values for the fill-in form. `{duration}` falls back to the
+ * current brief's length.
+ */
+export function initialValues(template: PromptTemplate, brief: BriefOptions) {
+  return Object.fromEntries(
+    templateVariables(template.text).map((name) => [
+      name,
+      template.defaults[name] ??
+        (name === "duration" ? String(brief.durationSeconds) : ""),
+    ]),
+  );
+}
+
+export function exportTemplates(templates: PromptTemplate[]) {
+  const body: TemplateExport = {
+    version: 1,
+    templates: templates.map(({ builtIn: _builtIn, ...template }) => template),
+  };
+  return JSON.stringify(body, null, 2);
+}
+
+function readTemplate(input: unknown): PromptTemplate | undefined {
+  if (typeof input !== "object" || input === null) {
+    return undefined;
+  }
+
+  const value = input as Record<string, unknown>;
+  const text = typeof value.text === "string" ? value.text.trim() : "";
+  const name = typeof value.name === "string" ? value.name.trim() : "";
+
+  if (!text || !name) {
+    return undefined;
+  }
+
+  const defaults =
+    typeof value.defaults === "object" && value.defaults !== null
+      ? Object.fromEntries(
+          Object.entries(value.defaults).filter(
+            (entry): entry is [string, string] => typeof entry[1] === "string",
+          ),
+        )
+      : {};
+
+  return {
+    id: crypto.randomUUID(),
+    name,
+    category:
+      typeof value.category === "string" && value.category.trim()
+        ? value.category.trim()
+        : "Imported",
+    text,
+    defaults,
+    brief:
+      typeof value.brief === "object" && value.brief !== null
+        ? (value.brief as Partial<BriefOptions>)
+        : undefined,
+  };
+}
+
+/**
+ * Reads a template export (or a bare array of templates). Imported templates
+ * get fresh ids so they never overwrite existing ones.
+ */
+export function parseTemplateImport(json: string) {
+  let parsed: unknown;
+
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    throw new Error("The file is not valid JSON.");
+  }
+
+  const list = Array.isArray(parsed)
+    ? parsed
+    : (parsed as Partial<TemplateExport> | null)?.templates;
+
+  if (!Array.isArray(list)) {
+    throw new Error("Expected a list of templates.");
+  }
+
+  const templates = list.flatMap((item) => {
+    const template = readTemplate(item);
+    return template ? [template] : [];
+  });
+
+  return { templates, skipped: list.length - templates.length };
+}
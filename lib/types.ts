@@ -0,0 +1,294 @@
+import type { BrandKit } from "./brand";
+import type { BriefOptions, toWorkflowBrief } from "./brief";
+import type { GenerateErrorInfo } from "./errors";
+import type { SchemaIssue } from "./schema";
+
+export type Scene = {
+  sceneNumber: number;
+  duration: number;
+  narration: string;
+  keywords: string[];
+  visualDescription: string;
+};
+
+export type VideoClip = {
+  sceneNumber: number;
+  videoUrl?: string;
+  duration?: number;
+  narration?: string;
+  caption?: string;
+};
+
+/** A user's choice of footage for one scene when re-rendering. */
+export type ClipSelection = {
+  sceneNumber: number;
+  videoUrl: string;
+};
+
+export type FootageCandidate = {
+  id: string;
+  videoUrl: string;
+  previewImageUrl?: string;
+  width?: number;
+  height?: number;
+  duration?: number;
+  author?: string;
+  sourceUrl?: string;
+};
+
+export type FootageResponse = {
+  candidates: FootageCandidate[];
+};
+
+export type GeneratedVideo = {
+  id: string;
+  prompt: string;
+  url: string;
+  createdAt: number;
+  title?: string;
+  duration?: number;
+  /** Pixel dimensions, from the workflow or read from the loaded video. */
+  width?: number;
+  height?: number;
+  renderId?: string;
+  thumbnailUrl?: string;
+  narration?: string;
+  audioUrl?: string;
+  scenes?: Scene[];
+  videoClips?: VideoClip[];
+  brief?: BriefOptions;
+  simulated?: boolean;
+  pinned?: boolean;
+  campaign?: CampaignRef;
+  brand?: BrandKit;
+  /** The render this one was remixed from. */
+  parentId?: string;
+  /** Who generated it and the workspace it belongs to, when sign-in is on. */
+  ownerId?: string;
+  workspaceId?: string;
+};
+
+export type Storyboard = {
+  title: string;
+  scenes: Scene[];
+};
+
+export type GenerateRequest = {
+  topic: string;
+  brief?: Partial<BriefOptions>;
+  storyboard?: Storyboard;
+  clips?: ClipSelection[];
+  brand?: BrandKit;
+  /** Links the render as a new version of an earlier one. */
+  parentId?: string;
+  /** Give up on an attempt after this long; defaults to the server setting. */
+  timeoutSeconds?: number;
+};
+
+export type ScriptResponse = {
+  storyboard: Storyboard;
+};
+
+/**
+ * The body posted to the workflow webhook. `script` mode stops after the
+ * script is written; `render` mode renders `scenes` when they are provided
+ * instead of writing a new script.
+ */
+export type WorkflowRequest = ReturnType<typeof toWorkflowBrief> & {
+  topic: string;
+  mode: "script" | "render";
+  title?: string;
+  scenes?: Scene[];
+  clips?: ClipSelection[];
+  brand?: BrandKit;
+  jobId?: string;
+  callbackUrl?: string;
+};
+
+export type GenerateErrorBody = {
+  error: GenerateErrorInfo;
+};
+
+export type JobStatus =
+  "queued" | "running" | "succeeded" | "failed" | "cancelled";
+
+export type JobStage = "received" | "rendering" | "delivered";
+
+export type JobEventType =
+  | "script_parsed"
+  | "voiceover_ready"
+  | "clip_fetched"
+  | "render_submitted"
+  | "render_succeeded"
+  | "render_failed";
+
+export type JobEvent = {
+  type: JobEventType;
+  at: number;
+  sceneNumber?: number;
+  totalScenes?: number;
+  renderId?: string;
+  message?: string;
+};
+
+export type JobCallbackPayload = Omit<JobEvent, "at"> & {
+  /** The backend's own id for the run, e.g. the n8n execution id. */
+  externalId?: string;
+  result?: unknown;
+};
+
+export type JobAttemptTrigger = "initial" | "automatic" | "manual";
+
+export type JobAttempt = {
+  number: number;
+  trigger: JobAttemptTrigger;
+  startedAt: number;
+  finishedAt?: number;
+  outcome?: "succeeded" | "failed" | "cancelled";
+  error?: GenerateErrorInfo;
+  /** When the next automatic attempt starts, if one is scheduled. */
+  retryAt?: number;
+};
+
+export type GenerationJob = {
+  id: string;
+  topic: string;
+  brief: BriefOptions;
+  storyboard?: Storyboard;
+  clips?: ClipSelection[];
+  timeoutSeconds?: number;
+  campaign?: CampaignRef;
+  brand?: BrandKit;
+  parentId?: string;
+  ownerId?: string;
+  workspaceId?: string;
+  /** The backend's own id for the run, once it reports one. */
+  externalId?: string;
+  status: JobStatus;
+  stage: JobStage;
+  progress: number;
+  createdAt: number;
+  updatedAt: number;
+  /** Events from the current attempt. */
+  events: JobEvent[];
+  attempts: JobAttempt[];
+  video?: GeneratedVideo;
+  issues?: SchemaIssue[];
+  error?: GenerateErrorInfo;
+};
+
+export type JobResponse = {
+  job: GenerationJob;
+};
+
+/** The named batch a render was generated in. */
+export type CampaignRef = {
+  id: string;
+  name: string;
+};
+
+export type Campaign = CampaignRef & {
+  createdAt: number;
+  /** How many of its jobs may render at the same time. */
+  concurrency: number;
+  jobIds: string[];
+  ownerId?: string;
+  workspaceId?: string;
+};
+
+export type CampaignRow = {
+  topic: string;
+  brief?: Partial<BriefOptions>;
+};
+
+export type CampaignRequest = {
+  name: string;
+  rows: CampaignRow[];
+  /** Options for rows that don't set their own. */
+  brief?: Partial<BriefOptions>;
+  brand?: BrandKit;
+  concurrency?: number;
+  timeoutSeconds?: number;
+};
+
+export type CampaignProgress = Record<JobStatus, number> & {
+  total: number;
+  /** Average progress across the campaign's jobs, 0–100. */
+  percent: number;
+};
+
+export type CampaignResponse = {
+  campaign: Campaign;
+  jobs: GenerationJob[];
+  progress: CampaignProgress;
+};
+
+export type WorkspaceRole = "owner" | "admin" | "editor" | "viewer";
+
+export type User = {
+  id: string;
+  name: string;
+  email?: string;
+  username?: string;
+};
+
+export type WorkspaceMember = User & {
+  role: WorkspaceRole;
+};
+
+export type Workspace = {
+  id: string;
+  name: string;
+  createdAt: number;
+  members: WorkspaceMember[];
+};
+
+export type WorkspaceSummary = {
+  id: string;
+  name: string;
+  /** The signed-in user's role in it. */
+  role: WorkspaceRole;
+};
+
+export type AuthProviderName = "password" | "magic-link";
+
+export type SessionResponse = {
+  /** The configured sign-in method, or null when sign-in is off. */
+  provider: AuthProviderName | null;
+  user: User | null;
+  workspaces: WorkspaceSummary[];
+  /** The workspace new renders go to. */
+  workspaceId?: string;
+};
+
+export type SignInRequest = {
+  email?: string;
+  username?: string;
+  password?: string;
+  name?: string;
+  /** Registers a new account instead of signing in to an existing one. */
+  create?: boolean;
+};
+
+export type WorkspaceResponse = {
+  workspace: Workspace;
+};
+
+/** Who a quota counts against. `app` stands in for everyone while sign-in is off. */
+export type QuotaScope = "user" | "workspace" | "app";
+
+export type QuotaWindow = "hour" | "day" | "concurrent";
+
+export type UsageMeter = {
+  scope: QuotaScope;
+  window: QuotaWindow;
+  limit: number;
+  used: number;
+  remaining: number;
+  /** When the oldest render in an hourly or daily window stops counting. */
+  resetAt?: number;
+};
+
+export type UsageResponse = {
+  meters: UsageMeter[];
+};
@@ -0,0 +1,118 @@
+import type { GeneratedVideo, Scene } from "./types";
+
+/** 1 for an original render, 2 for its first remix, and so on. */
+export function versionNumber(video: GeneratedVideo, videos: GeneratedVideo[]) {
+  const byId = new Map(videos.map((candidate) => [candidate.id, candidate]));
+  const seen = new Set<string>([video.id]);
+  let version = 1;
+  let parentId = video.parentId;
+
+  // Parents deleted from the gallery still count, but can't be followed.
+  while (parentId && !seen.has(parentId)) {
+    version += 1;
+    seen.add(parentId);
+    parentId = byId.get(parentId)?.parentId;
+  }
+
+  return version;
+}
+
+export type DiffToken = {
+  text: string;
+  op: "same" | "added" | "removed";
+};
+
+export type SceneDiff = {
+  sceneNumber: number;
+  status: "same" | "changed" | "added" | "removed";
+  before?: Scene;
+  after?: Scene;
+  narration: DiffToken[];
+  visualChanged: boolean;
+  durationChanged: boolean;
+};
+
+/** Word-level diff via the longest common subsequence. */
+export function diffWords(before: string, after: string): DiffToken[] {
+  const a = before.split(/\s+/).filter(Boolean);
+  const b = after.split(/\s+/).filter(Boolean);
+  const lengths = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0),
+  );
+
+  for (let i = a.length - 1; i >= 0; i -= 1) {
+    for (let j = b.length - 1; j >= 0; j -= 1) {
+      lengths[i][j] =
+        a[i] === b[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const tokens: DiffToken[] = [];
+  const push = (text: string, op: DiffToken["op"]) => {
+    const last = tokens[tokens.length - 1];
+    if (last?.op === op) {
+      last.text += ` ${text}`;
+    } else {
+      tokens.push({ text, op });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push(a[i], "same");
+      i += 1;
+      j += 1;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push(a[i], "removed");
+      i += 1;
+    } else {
+      push(b[j], "added");
+      j += 1;
+    }
+  }
+  a.slice(i).forEach((word) => push(word, "removed"));
+  b.slice(j).forEach((word) => push(word, "added"));
+
+  return tokens;
+}
+
+/** Compares two scene scripts scene by scene, matched on `sceneNumber`. */
+export function diffScenes(before: Scene[], after: Scene[]): SceneDiff[] {
+  const numbers = Array.from(
+    new Set([...before, ...after].map((scene) => scene.sceneNumber)),
+  ).sort((x, y) => x - y);
+
+  return numbers.map((sceneNumber) => {
+    const left = before.find((scene) => scene.sceneNumber === sceneNumber);
+    const right = after.find((scene) => scene.sceneNumber === sceneNumber);
+    const narration = diffWords(left?.narration ?? "", right?.narration ?? "");
+    const visualChanged =
+      !!left &&
+      !!right &&
+      left.visualDescription.trim() !== right.visualDescription.trim();
+    const durationChanged =
+      !!left && !!right && left.duration !== right.duration;
+
+    return {
+      sceneNumber,
+      status: !left
+        ? "added"
+        : !right
+          ? "removed"
+          : visualChanged ||
+              durationChanged ||
+              narration.some((token) => token.op !== "same")
+            ? "changed"
+            : "same",
+      before: left,
+      after: right,
+      narration,
+      visualChanged,
+      durationChanged,
+    };
+  });
+}
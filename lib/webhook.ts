@@ -0,0 +1,272 @@
+import { GenerateError } from "./errors";
+import {
+  type SchemaIssue,
+  parseStoryboard,
+  parseWorkflowResult,
+} from "./schema";
+import { signatureHeaders } from "./signing";
+import type { GeneratedVideo, Storyboard, WorkflowRequest } from "./types";
+
+const DEFAULT_TIMEOUT_MS = 5 * 60 * 1000;
+
+function isProbablyUrl(value: string) {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch (error) {
+    return false;
+  }
+}
+
+function parseRetryAfter(value: string | null) {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, Math.ceil(seconds));
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date)
+    ? undefined
+    : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+function parseJson(raw: string) {
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    return undefined;
+  }
+}
+
+export function getWebhookUrl() {
+  return process.env.N8N_WEBHOOK_URL;
+}
+
+function getWebhookTimeout() {
+  const timeout = Number(process.env.N8N_WEBHOOK_TIMEOUT_MS);
+  return Number.isFinite(timeout) && timeout > 0 ? timeout : DEFAULT_TIMEOUT_MS;
+}
+
+export type WorkflowTarget = {
+  url: string | undefined;
+  /** Environment variable that configures `url`, named in configuration errors. */
+  setting: string;
+};
+
+/**
+ * Calls a workflow endpoint and returns its parsed body, mapping transport
+ * failures and error statuses onto `GenerateError` codes. Bodies are signed
+ * when `WEBHOOK_SIGNING_SECRET` is set.
+ */
+export async function requestWorkflow(
+  { url, setting }: WorkflowTarget,
+  {
+    method = "POST",
+    payload,
+    headers,
+    signal,
+  }: {
+    method?: string;
+    payload?: unknown;
+    headers?: Record<string, string>;
+    /** Aborts the call early, e.g. when the job is cancelled. */
+    signal?: AbortSignal;
+  } = {},
+): Promise<unknown> {
+  if (!url) {
+    throw new GenerateError("configuration", {
+      detail: `${setting} is not set.`,
+    });
+  }
+
+  const requestBody = payload === undefined ? "" : JSON.stringify(payload);
+  let response: Response;
+
+  try {
+    response = await fetch(url, {
+      method,
+      headers: {
+        ...(requestBody && { "Content-Type": "application/json" }),
+        ...signatureHeaders(requestBody),
+        ...headers,
+      },
+      body: requestBody || undefined,
+      cache: "no-store",
+      signal: signal
+        ? AbortSignal.any([signal, AbortSignal.timeout(getWebhookTimeout())])
+        : AbortSignal.timeout(getWebhookTimeout()),
+    });
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "TimeoutError") {
+      throw new GenerateError("timeout", {
+        detail: `No response after ${getWebhookTimeout()}ms.`,
+      });
+    }
+
+    if (error instanceof DOMException && error.name === "AbortError") {
+      throw new GenerateError("network", {
+        message: "The request to the workflow was aborted.",
+      });
+    }
+
+    throw new GenerateError("network", {
+      detail: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  const raw = (await response.text()).trim();
+
+  if (!response.ok) {
+    const body = parseJson(raw);
+
+    if (response.status === 401) {
+      throw new GenerateError("configuration", {
+        message: "The video workflow rejected the request signature.",
+        upstreamStatus: response.status,
+        detail:
+          "Set the same WEBHOOK_SIGNING_SECRET for the app and the workflow.",
+      });
+    }
+
+    if (body?.success === false) {
+      throw new GenerateError("render_failed", {
+        upstreamStatus: response.status,
+        detail: typeof body.error === "string" ? body.error : raw,
+      });
+    }
+
+    if (response.status === 429) {
+      throw new GenerateError("rate_limited", {
+        upstreamStatus: response.status,
+        retryAfterSeconds: parseRetryAfter(response.headers.get("retry-after")),
+        detail: raw || undefined,
+      });
+    }
+
+    throw new GenerateError("upstream_http", {
+      message: `The video workflow answered with HTTP ${response.status}.`,
+      upstreamStatus: response.status,
+      detail: raw || undefined,
+    });
+  }
+
+  if (!raw && payload === undefined) {
+    return undefined;
+  }
+
+  if (!raw) {
+    throw new GenerateError("invalid_response", {
+      message: "The workflow returned an empty response.",
+    });
+  }
+
+  const body = parseJson(raw);
+
+  if (body !== undefined) {
+    return body;
+  }
+
+  if (isProbablyUrl(raw)) {
+    return { videoUrl: raw };
+  }
+
+  // Make.com answers a bare "Accepted" when a scenario has no Webhook
+  // response module; the result then arrives through the callback.
+  if (raw === "Accepted") {
+    return { accepted: true };
+  }
+
+  throw new GenerateError("invalid_response", {
+    message: "The workflow responded with a body that could not be parsed.",
+    detail: raw.slice(0, 2000),
+  });
+}
+
+/** An acknowledgement from a workflow that delivers its result by callback. */
+export function isAcceptedResult(
+  result: unknown,
+): result is { accepted: true; executionId?: string } {
+  if (typeof result !== "object" || result === null) {
+    return false;
+  }
+
+  const { accepted, videoUrl } = result as {
+    accepted?: unknown;
+    videoUrl?: unknown;
+  };
+  return accepted === true && !videoUrl;
+}
+
+export function callWebhook(payload: WorkflowRequest, signal?: AbortSignal) {
+  return requestWorkflow(
+    { url: getWebhookUrl(), setting: "N8N_WEBHOOK_URL" },
+    { payload, signal },
+  );
+}
+
+export function normalizeVideo(
+  prompt: string,
+  result: unknown,
+): { video: GeneratedVideo; issues: SchemaIssue[] } {
+  if (
+    typeof result === "object" &&
+    result !== null &&
+    (result as { success?: unknown }).success === false
+  ) {
+    const { error } = result as { error?: unknown };
+    throw new GenerateError("render_failed", {
+      detail: typeof error === "string" ? error : JSON.stringify(result),
+    });
+  }
+
+  const { value, issues } = parseWorkflowResult(result);
+
+  if (!value) {
+    throw new GenerateError("invalid_response", {
+      message: "The workflow response did not include a usable videoUrl.",
+      detail: issues
+        .map((issue) => `${issue.path}: ${issue.message}`)
+        .join("\n"),
+    });
+  }
+
+  return {
+    video: {
+      id: crypto.randomUUID(),
+      prompt,
+      url: value.videoUrl,
+      createdAt: Date.now(),
+      title: value.title,
+      duration: value.duration,
+      width: value.width,
+      height: value.height,
+      renderId: value.renderId,
+      thumbnailUrl: value.thumbnailUrl,
+      narration: value.narration,
+      audioUrl: value.audioUrl,
+      scenes: value.scenes,
+      videoClips: value.videoClips,
+    },
+    issues,
+  };
+}
+
+export function expectStoryboard(result: unknown): Storyboard {
+  const { value, issues } = parseStoryboard(result);
+
+  if (!value) {
+    throw new GenerateError("invalid_response", {
+      message: "The workflow did not return a usable script.",
+      detail: issues
+        .map((issue) => `${issue.path}: ${issue.message}`)
+        .join("\n"),
+    });
+  }
+
+  return value;
+}
@@ -0,0 +1,173 @@
+import { GenerateError } from "./errors";
+import { hasRole } from "./roles";
+import type { User, Workspace, WorkspaceRole, WorkspaceSummary } from "./types";
+
+/** A stored account. Only `User` fields ever leave the server. */
+export type UserRecord = User & {
+  createdAt: number;
+  /** `scrypt$salt$hash`, for the password provider. */
+  passwordHash?: string;
+};
+
+type WorkspaceRecord = {
+  id: string;
+  name: string;
+  createdAt: number;
+  members: Record<string, WorkspaceRole>;
+};
+
+// Accounts and workspaces live in memory next to jobs and renders; keep them
+// on globalThis so dev-mode module reloads don't sign everyone out.
+const globalStore = globalThis as typeof globalThis & {
+  __clipoUsers?: Map<string, UserRecord>;
+  __clipoWorkspaces?: Map<string, WorkspaceRecord>;
+};
+
+const users = (globalStore.__clipoUsers ??= new Map<string, UserRecord>());
+const workspaces = (globalStore.__clipoWorkspaces ??= new Map<
+  string,
+  WorkspaceRecord
+>());
+
+export function publicUser({ id, name, email, username }: User): User {
+  return { id, name, email, username };
+}
+
+export function createUser(fields: Omit<UserRecord, "id" | "createdAt">) {
+  const user: UserRecord = {
+    id: crypto.randomUUID(),
+    createdAt: Date.now(),
+    ...fields,
+  };
+  users.set(user.id, user);
+  return user;
+}
+
+export function getUser(id: string) {
+  return users.get(id);
+}
+
+/** Looks an account up by email or username, ignoring case. */
+export function findUser(key: "email" | "username", value: string) {
+  const wanted = value.trim().toLowerCase();
+  return Array.from(users.values()).find(
+    (user) => user[key]?.toLowerCase() === wanted,
+  );
+}
+
+export function createWorkspace(name: string, ownerId: string) {
+  const workspace: WorkspaceRecord = {
+    id: crypto.randomUUID(),
+    name,
+    createdAt: Date.now(),
+    members: { [ownerId]: "owner" },
+  };
+  workspaces.set(workspace.id, workspace);
+  return workspace;
+}
+
+export function roleIn(workspaceId: string, userId: string) {
+  return workspaces.get(workspaceId)?.members[userId];
+}
+
+export function listWorkspaces(userId: string): WorkspaceSummary[] {
+  return Array.from(workspaces.values())
+    .filter((workspace) => workspace.members[userId])
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .map(({ id, name, members }) => ({ id, name, role: members[userId] }));
+}
+
+/** Gives a user without any workspace a personal one to start in. */
+export function ensureWorkspace(user: User) {
+  const [first] = listWorkspaces(user.id);
+  return first?.id ?? createWorkspace(`${user.name}'s workspace`, user.id).id;
+}
+
+export function getWorkspace(id: string): Workspace | undefined {
+  const workspace = workspaces.get(id);
+
+  if (!workspace) {
+    return undefined;
+  }
+
+  return {
+    id: workspace.id,
+    name: workspace.name,
+    createdAt: workspace.createdAt,
+    members: Object.entries(workspace.members).flatMap(([userId, role]) => {
+      const user = users.get(userId);
+      return user ? [{ ...publicUser(user), role }] : [];
+    }),
+  };
+}
+
+function owners(workspace: WorkspaceRecord) {
+  return Object.values(workspace.members).filter((role) => role === "owner")
+    .length;
+}
+
+/**
+ * Adds a member or changes their role. Only owners can make or unmake other
+ * owners, and a workspace always keeps at least one.
+ */
+export function setMember(
+  workspaceId: string,
+  userId: string,
+  role: WorkspaceRole,
+  actorRole: WorkspaceRole,
+) {
+  const workspace = workspaces.get(workspaceId);
+
+  if (!workspace) {
+    throw new GenerateError("invalid_request", {
+      message: "Unknown workspace id.",
+    });
+  }
+
+  const current = workspace.members[userId];
+
+  if (
+    (role === "owner" || current === "owner") &&
+    !hasRole(actorRole, "owner")
+  ) {
+    throw new GenerateError("forbidden", {
+      message: "Only owners can add or change owners.",
+    });
+  }
+
+  if (current === "owner" && role !== "owner" && owners(workspace) === 1) {
+    throw new GenerateError("invalid_request", {
+      message: "A workspace needs at least one owner.",
+    });
+  }
+
+  workspace.members[userId] = role;
+}
+
+export function removeMember(
+  workspaceId: string,
+  userId: string,
+  actorRole: WorkspaceRole,
+) {
+  const workspace = workspaces.get(workspaceId);
+  const current = workspace?.members[userId];
+
+  if (!workspace || !current) {
+    return false;
+  }
+
+  if (current === "owner" && !hasRole(actorRole, "owner")) {
+    throw new GenerateError("forbidden", {
+      message: "Only owners can remove owners.",
+    });
+  }
+
+  if (current === "owner" && owners(workspace) === 1) {
+    throw new GenerateError("invalid_request", {
+      message: "A workspace needs at least one owner.",
+    });
+  }
+
+  delete workspace.members[userId];
+  return true;
+}
@@ -0,0 +1,430 @@
+// Local stand-in for the n8n workflow in n8n-workflow.json. It speaks the same
+// webhook contract: script and render modes, job callbacks, request signing
+// and the full result body, with stage timings and failure injection.
+//
+//   npm run mock:workflow
+//   N8N_WEBHOOK_URL=http://localhost:5678/webhook/generate-video npm run dev
+//
+// See "Mock workflow server" in the README for the settings.
+import {
+  createHash,
+  createHmac,
+  randomUUID,
+  timingSafeEqual,
+} from "node:crypto";
+import { createServer } from "node:http";
+
+const PORT = Number(process.env.MOCK_WORKFLOW_PORT) || 5678;
+const SPEED = Number(process.env.MOCK_WORKFLOW_SPEED) || 1;
+const ASYNC = process.env.MOCK_WORKFLOW_ASYNC === "1";
+const FAILURE = process.env.MOCK_WORKFLOW_FAILURE || "";
+const FAILURE_RATE = process.env.MOCK_WORKFLOW_FAILURE_RATE
+  ? Number(process.env.MOCK_WORKFLOW_FAILURE_RATE)
+  : 1;
+const SECRET = process.env.WEBHOOK_SIGNING_SECRET;
+// Absolute and https like a real render, so Swap footage accepts its clips.
+const VIDEO_URL =
+  process.env.MOCK_VIDEO_URL ||
+  "https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/ForBiggerBlazes.mp4";
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+const failureModes = [
+  "timeout",
+  "rate_limit",
+  "malformed_json",
+  "missing_video",
+  "render_failed",
+];
+
+// Roughly what the real services take, before MOCK_WORKFLOW_SPEED.
+const timings = {
+  script: 4000,
+  voiceover: 6000,
+  clip: 1500,
+  submit: 1000,
+  renderBase: 12000,
+  renderPerScene: 1000,
+};
+
+const seenNonces = new Map();
+const titles = new Map();
+
+if (FAILURE && !failureModes.includes(FAILURE)) {
+  console.error(
+    `MOCK_WORKFLOW_FAILURE must be one of ${failureModes.join(", ")}.`,
+  );
+  process.exit(1);
+}
+
+function wait(ms) {
+  return new Promise((resolve) => setTimeout(resolve, ms / SPEED));
+}
+
+function log(executionId, message) {
+  console.log(`[${executionId.slice(0, 8)}] ${message}`);
+}
+
+/** `[fail:<mode>]` in the topic forces a failure for that request. */
+function pickFailure(topic) {
+  const tagged = /\[fail:([a-z_]+)\]/.exec(topic ?? "")?.[1];
+
+  if (tagged) {
+    return failureModes.includes(tagged) ? tagged : "";
+  }
+
+  return FAILURE && Math.random() < FAILURE_RATE ? FAILURE : "";
+}
+
+function sign(body) {
+  if (!SECRET) {
+    return {};
+  }
+
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const nonce = randomUUID();
+  const digest = createHash("sha256").update(body).digest("hex");
+  const mac = createHmac("sha256", SECRET)
+    .update(`${timestamp}.${nonce}.${digest}`)
+    .digest("hex");
+
+  return {
+    "X-Clipo-Timestamp": timestamp,
+    "X-Clipo-Nonce": nonce,
+    "X-Clipo-Signature": `v1=${mac}`,
+  };
+}
+
+function verify(headers, raw) {
+  if (!SECRET) {
+    return null;
+  }
+
+  const timestamp = headers["x-clipo-timestamp"];
+  const nonce = headers["x-clipo-nonce"];
+  const signature = headers["x-clipo-signature"];
+
+  if (!timestamp || !nonce || !signature) {
+    return "The request is not signed.";
+  }
+
+  const age = Math.abs(Date.now() / 1000 - Number(timestamp));
+  if (!Number.isFinite(age) || age > SIGNATURE_TOLERANCE_SECONDS) {
+    return "The request signature has expired.";
+  }
+
+  const digest = createHash("sha256").update(raw).digest("hex");
+  const expected = Buffer.from(
+    `v1=${createHmac("sha256", SECRET).update(`${timestamp}.${nonce}.${digest}`).digest("hex")}`,
+  );
+  const actual = Buffer.from(signature);
+
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return "The request signature does not match.";
+  }
+
+  const cutoff = Date.now() - SIGNATURE_TOLERANCE_SECONDS * 1000;
+  seenNonces.forEach((seenAt, key) => {
+    if (seenAt < cutoff) {
+      seenNonces.delete(key);
+    }
+  });
+
+  if (seenNonces.has(nonce)) {
+    return "The request was already delivered.";
+  }
+
+  seenNonces.set(nonce, Date.now());
+  return null;
+}
+
+function send(res, status, body, headers = {}) {
+  if (res.writableEnded || res.destroyed) {
+    return;
+  }
+
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(typeof body === "string" ? body : JSON.stringify(body));
+}
+
+async function notify(request, executionId, event) {
+  if (!request.callbackUrl) {
+    return;
+  }
+
+  const body =
+    typeof event === "string"
+      ? event
+      : JSON.stringify({ jobId: request.jobId, executionId, ...event });
+
+  try {
+    const response = await fetch(request.callbackUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...sign(body) },
+      body,
+    });
+    log(executionId, `callback ${event.event ?? "raw"} → ${response.status}`);
+  } catch (error) {
+    log(executionId, `callback failed: ${error.message}`);
+  }
+}
+
+function buildScenes(request) {
+  if (Array.isArray(request.scenes) && request.scenes.length > 0) {
+    return request.scenes;
+  }
+
+  const topic = String(request.topic ?? "").replace(/\[fail:[a-z_]+\]/, "");
+  const count = Number(request.sceneCount) || 6;
+  const duration = Math.max(
+    2,
+    Math.round((Number(request.durationSeconds) || 45) / count),
+  );
+  const beats = [
+    `Here's what nobody tells you about ${topic.trim()}.`,
+    "Start with the one habit that changes everything.",
+    "Then build on it a little every single day.",
+    "Watch out for the mistake most beginners make.",
+    "Small wins stack up faster than you think.",
+    "Try it today and see the difference.",
+  ];
+
+  return Array.from({ length: count }, (_, index) => ({
+    sceneNumber: index + 1,
+    duration,
+    narration:
+      index === count - 1
+        ? beats[beats.length - 1]
+        : beats[index % (beats.length - 1)],
+    keywords: ["workspace", "hands", "closeup"].slice(0, 2 + (index % 2)),
+    visualDescription: `Mock shot ${index + 1} for "${topic.trim()}".`,
+  }));
+}
+
+/** A silent 8 kHz WAV as long as the narration, like Hume's base64 audio. */
+function silentAudio(seconds) {
+  const samples = Math.round(seconds * 8000);
+  const buffer = Buffer.alloc(44 + samples, 0x80);
+  buffer.write("RIFF", 0);
+  buffer.writeUInt32LE(36 + samples, 4);
+  buffer.write("WAVEfmt ", 8);
+  buffer.writeUInt32LE(16, 16);
+  buffer.writeUInt16LE(1, 20);
+  buffer.writeUInt16LE(1, 22);
+  buffer.writeUInt32LE(8000, 24);
+  buffer.writeUInt32LE(8000, 28);
+  buffer.writeUInt16LE(1, 32);
+  buffer.writeUInt16LE(8, 34);
+  buffer.write("data", 36);
+  buffer.writeUInt32LE(samples, 40);
+  return `data:audio/wav;base64,${buffer.toString("base64")}`;
+}
+
+function thumbnail(title) {
+  const text = String(title)
+    .replace(/[<>&"]/g, "")
+    .slice(0, 40);
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="720" height="1280" viewBox="0 0 720 1280">
+  <defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1">
+    <stop offset="0" stop-color="#0ea5e9"/><stop offset="1" stop-color="#7c3aed"/>
+  </linearGradient></defs>
+  <rect width="720" height="1280" fill="url(#g)"/>
+  <text x="360" y="640" fill="#fff" font-family="sans-serif" font-size="44" text-anchor="middle">${text}</text>
+  <text x="360" y="700" fill="#ffffffaa" font-family="sans-serif" font-size="28" text-anchor="middle">mock workflow</text>
+</svg>`;
+}
+
+function buildResult(request, scenes, renderId) {
+  const title = request.title || `Mock: ${request.topic}`;
+  const duration = scenes.reduce((sum, scene) => sum + scene.duration, 0);
+  const narration = scenes.map((scene) => scene.narration).join(" ");
+  const showCaptions = request.captionStyle !== "none";
+  titles.set(renderId, title);
+
+  return {
+    success: true,
+    videoUrl: VIDEO_URL,
+    thumbnailUrl: `http://localhost:${PORT}/thumbnails/${renderId}.svg`,
+    title,
+    topic: request.topic,
+    duration,
+    renderId,
+    narration,
+    scenes,
+    audioUrl: silentAudio(duration),
+    videoClips: scenes.map((scene) => {
+      const chosen = (request.clips ?? []).find(
+        (clip) => clip.sceneNumber === scene.sceneNumber,
+      );
+      return {
+        sceneNumber: scene.sceneNumber,
+        videoUrl: chosen ? chosen.videoUrl : VIDEO_URL,
+        duration: scene.duration,
+        narration: scene.narration,
+        caption: showCaptions ? scene.narration : "",
+      };
+    }),
+  };
+}
+
+async function handleScript(request, res, executionId, failure) {
+  await wait(timings.script);
+  const scenes = buildScenes({ ...request, scenes: undefined });
+  log(executionId, `script ready (${scenes.length} scenes)`);
+
+  if (failure === "malformed_json") {
+    return send(res, 200, '{"success": true, "title": "Mock", "scenes": [');
+  }
+
+  send(res, 200, {
+    success: true,
+    title: `Mock: ${request.topic}`,
+    topic: request.topic,
+    scenes,
+  });
+}
+
+async function handleRender(request, res, executionId, failure) {
+  if (ASYNC) {
+    send(res, 200, { accepted: true, executionId });
+  }
+
+  const scenes = buildScenes(request);
+  await wait(timings.script);
+  await notify(request, executionId, {
+    event: "script_parsed",
+    totalScenes: scenes.length,
+  });
+
+  await wait(timings.voiceover);
+  await notify(request, executionId, { event: "voiceover_ready" });
+
+  for (const scene of scenes) {
+    await wait(timings.clip);
+    await notify(request, executionId, {
+      event: "clip_fetched",
+      sceneNumber: scene.sceneNumber,
+      totalScenes: scenes.length,
+    });
+  }
+
+  const renderId = `mock-${randomUUID()}`;
+  await wait(timings.submit);
+  await notify(request, executionId, { event: "render_submitted", renderId });
+  await wait(timings.renderBase + timings.renderPerScene * scenes.length);
+
+  if (failure === "render_failed") {
+    const error = "Mock render failed (injected).";
+    await notify(request, executionId, {
+      event: "render_failed",
+      renderId,
+      message: error,
+    });
+    return send(res, 502, { success: false, renderId, error });
+  }
+
+  const result = buildResult(request, scenes, renderId);
+
+  if (failure === "missing_video") {
+    delete result.videoUrl;
+  }
+
+  if (failure === "malformed_json") {
+    const truncated = JSON.stringify({
+      jobId: request.jobId,
+      executionId,
+      event: "render_succeeded",
+      renderId,
+      result,
+    }).slice(0, 200);
+    await notify(request, executionId, truncated);
+    return send(res, 200, JSON.stringify(result).slice(0, 200));
+  }
+
+  await notify(request, executionId, {
+    event: "render_succeeded",
+    renderId,
+    result,
+  });
+  send(res, 200, result);
+  log(executionId, `render ${renderId} delivered`);
+}
+
+async function handleWebhook(req, res, raw) {
+  const executionId = randomUUID();
+  const signatureError = verify(req.headers, raw);
+
+  if (signatureError) {
+    log(executionId, `rejected: ${signatureError}`);
+    return send(res, 401, { success: false, error: signatureError });
+  }
+
+  let request;
+  try {
+    request = JSON.parse(raw);
+  } catch {
+    return send(res, 400, { success: false, error: "Body must be JSON." });
+  }
+
+  const failure = pickFailure(request.topic);
+  log(
+    executionId,
+    `${request.mode ?? "render"} "${request.topic}"${failure ? ` (injecting ${failure})` : ""}`,
+  );
+
+  if (failure === "rate_limit") {
+    return send(
+      res,
+      429,
+      { code: 429, message: "Mock rate limit (injected)." },
+      { "Retry-After": "30" },
+    );
+  }
+
+  if (failure === "timeout") {
+    // Never answer; the app gives up after N8N_WEBHOOK_TIMEOUT_MS.
+    req.on("close", () => log(executionId, "client gave up"));
+    return;
+  }
+
+  if (request.mode === "script") {
+    return handleScript(request, res, executionId, failure);
+  }
+
+  return handleRender(request, res, executionId, failure);
+}
+
+const server = createServer((req, res) => {
+  const url = new URL(req.url ?? "/", `http://localhost:${PORT}`);
+  const thumbnailMatch = /^\/thumbnails\/(.+)\.svg$/.exec(url.pathname);
+
+  if (req.method === "GET" && thumbnailMatch) {
+    res.writeHead(200, { "Content-Type": "image/svg+xml" });
+    return res.end(thumbnail(titles.get(thumbnailMatch[1]) ?? "Clipo"));
+  }
+
+  if (req.method === "GET" && url.pathname === "/health") {
+    return send(res, 200, { ok: true });
+  }
+
+  if (req.method !== "POST") {
+    return send(res, 404, { success: false, error: "Not found." });
+  }
+
+  const chunks = [];
+  req.on("data", (chunk) => chunks.push(chunk));
+  req.on("end", () => {
+    handleWebhook(req, res, Buffer.concat(chunks).toString("utf8")).catch(
+      (error) => {
+        console.error(error);
+        send(res, 500, { success: false, error: String(error) });
+      },
+    );
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(
+    `Mock workflow on http://localhost:${PORT}/webhook/generate-video` +
+      ` (speed ×${SPEED}${ASYNC ? ", async" : ""}${FAILURE ? `, failure ${FAILURE} @ ${FAILURE_RATE}` : ""}${SECRET ? ", signed" : ""})`,
+  );
+});